@@ -0,0 +1,147 @@
+// Batch-generates rounds into a round file that a deployment can import and play without Reddit or an LLM:
+//
+//   npm run generate-rounds -- --topics "Taylor Swift,Zendaya" --rounds 5 --difficulty hard --out rounds.jsonl
+//   curl -X POST -H "Authorization: Bearer $GOSSIP_ADMIN_SECRET" --data-binary @rounds.jsonl \
+//     https://example.com/api/admin/rounds/import
+//
+// Topics come from --topics (comma separated) or --topics-file (one per line). The file is JSONL unless --out ends
+// in .json. Sources, the LLM provider and fixtures are configured through the same .env files as the app.
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { loadEnvConfig } from '@next/env';
+import { RoundFileEntry } from '@/types/curation';
+import { DifficultyLevel } from '@/types/gossip';
+import { Locale } from '@/types/i18n';
+import { DEFAULT_LOCALE, LOCALES, parseLocale } from '@/lib/i18n/locales';
+import { generateRound } from '@/lib/pipeline';
+import { getDifficultySettings, parseDifficultyMode } from '@/lib/pipeline/difficulty';
+import { getEnabledSources } from '@/lib/sources';
+import { serializeRoundFile, toRoundFileEntry } from '@/lib/curation/roundFile';
+
+// Sources sometimes serve the same post again; give up on a topic after this many tries per wanted round
+const ATTEMPTS_PER_ROUND = 3;
+
+const USAGE = `Usage: npm run generate-rounds -- --topics "A,B" | --topics-file topics.txt --out rounds.jsonl
+  [--rounds 5] [--difficulty easy|normal|hard] [--locale ${LOCALES.map(option => option.locale).join('|')}] [--decoys 1-5]`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+async function readTopics(topics?: string, topicsFile?: string) {
+  const text = topicsFile ? await fs.readFile(topicsFile, 'utf8') : topics ?? '';
+  return Array.from(new Set(
+    text
+      .split(topicsFile ? '\n' : ',')
+      .map(topic => topic.trim())
+      .filter(topic => topic && !topic.startsWith('#'))
+  ));
+}
+
+async function generateTopicRounds({ topic, count, difficulty, locale, decoyCount }: {
+  topic: string;
+  count: number;
+  difficulty: DifficultyLevel;
+  locale: Locale;
+  decoyCount?: number;
+}) {
+  const entries: RoundFileEntry[] = [];
+  const usedPosts = new Set<string>();
+  for (let attempt = 0; entries.length < count && attempt < count * ATTEMPTS_PER_ROUND; attempt++) {
+    try {
+      const game = await generateRound({
+        topic,
+        sources: getEnabledSources(),
+        difficulty: getDifficultySettings(difficulty),
+        decoyCount,
+        locale,
+      });
+      const sourceUrl = game.options[game.correctIndex].sourceUrl;
+      if (sourceUrl && usedPosts.has(sourceUrl)) {
+        continue;
+      }
+      if (sourceUrl) {
+        usedPosts.add(sourceUrl);
+      }
+      entries.push(toRoundFileEntry({
+        id: randomUUID(),
+        topic,
+        source: game.source!,
+        difficulty: game.difficulty ?? difficulty,
+        decoyAttempts: game.decoyAttempts ?? 0,
+        stories: game.options,
+        correctIndex: game.correctIndex,
+        createdAt: Date.now(),
+        generation: game.generation,
+      }));
+      console.info(`  ${topic}: round ${entries.length}/${count} from ${game.source?.label}`);
+    } catch (error) {
+      console.error(`  ${topic}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return entries;
+}
+
+async function main() {
+  loadEnvConfig(process.cwd());
+
+  const { values } = parseArgs({
+    options: {
+      topics: { type: 'string' },
+      'topics-file': { type: 'string' },
+      rounds: { type: 'string', default: '1' },
+      difficulty: { type: 'string', default: 'normal' },
+      locale: { type: 'string', default: DEFAULT_LOCALE },
+      decoys: { type: 'string' },
+      out: { type: 'string' },
+    },
+  });
+
+  const topics = await readTopics(values.topics, values['topics-file']);
+  if (topics.length === 0) {
+    fail('No topics given');
+  }
+  if (!values.out) {
+    fail('No output file given');
+  }
+  const count = Number(values.rounds);
+  if (!Number.isInteger(count) || count < 1) {
+    fail('--rounds must be a positive whole number');
+  }
+  const difficulty = parseDifficultyMode(values.difficulty);
+  if (!difficulty || difficulty === 'adaptive') {
+    fail('--difficulty must be easy, normal or hard');
+  }
+  const locale = parseLocale(values.locale);
+  if (!locale) {
+    fail(`--locale must be one of ${LOCALES.map(option => option.locale).join(', ')}`);
+  }
+  const decoyCount = values.decoys === undefined ? undefined : Number(values.decoys);
+  if (decoyCount !== undefined && !Number.isInteger(decoyCount)) {
+    fail('--decoys must be a whole number');
+  }
+
+  const entries: RoundFileEntry[] = [];
+  for (const topic of topics) {
+    console.info(`Generating ${count} ${difficulty} rounds for "${topic}"`);
+    const generated = await generateTopicRounds({ topic, count, difficulty, locale, decoyCount });
+    if (generated.length < count) {
+      console.error(`  ${topic}: only ${generated.length} of ${count} rounds generated`);
+    }
+    entries.push(...generated);
+  }
+
+  if (entries.length === 0) {
+    console.error('No rounds generated');
+    process.exit(1);
+  }
+  await fs.writeFile(values.out, serializeRoundFile(entries, values.out.endsWith('.json') ? 'json' : 'jsonl'));
+  console.info(`Wrote ${entries.length} rounds to ${values.out}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
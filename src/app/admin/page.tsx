@@ -0,0 +1,19 @@
+'use client';
+
+import { lazy, Suspense } from 'react';
+import GameLayout from '@/components/GameLayout';
+
+const AdminConsole = lazy(() => import('@/components/AdminConsole'));
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'edge';
+
+export default function AdminPage() {
+  return (
+    <GameLayout>
+      <Suspense fallback={<div>Loading...</div>}>
+        <AdminConsole />
+      </Suspense>
+    </GameLayout>
+  );
+}
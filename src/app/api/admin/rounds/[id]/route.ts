@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { requireAdmin } from '@/lib/curation/auth';
+import { getReviewRound, reviewRound } from '@/lib/curation/review';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    requireAdmin();
+    return NextResponse.json(await getReviewRound(params.id));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching round for review:', error);
+    return NextResponse.json({ error: 'Failed to fetch round' }, { status: 500 });
+  }
+}
+
+// Edit the topic or stories, approve into the round bank, or flag
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    requireAdmin();
+    const body = await request.json().catch(() => ({}));
+    return NextResponse.json(await reviewRound(params.id, {
+      topic: body?.topic,
+      stories: body?.stories,
+      status: body?.status,
+      note: body?.note,
+    }));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reviewing round:', error);
+    return NextResponse.json({ error: 'Failed to review round' }, { status: 500 });
+  }
+}
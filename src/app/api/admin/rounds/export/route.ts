@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { ReviewStatus } from '@/types/curation';
+import { HttpError } from '@/lib/errors';
+import { requireAdmin } from '@/lib/curation/auth';
+import { exportRounds } from '@/lib/curation/review';
+import { parseRoundFileFormat, serializeRoundFile } from '@/lib/curation/roundFile';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const EXPORT_STATUSES: ReviewStatus[] = ['approved', 'pending', 'flagged'];
+
+// Downloads the round bank (or another review status) as a round file; JSONL unless ?format=json
+export async function GET(request: Request) {
+  try {
+    requireAdmin();
+    const { searchParams } = new URL(request.url);
+    const format = parseRoundFileFormat(searchParams.get('format') || 'jsonl');
+    if (!format) {
+      return NextResponse.json({ error: 'Format must be json or jsonl' }, { status: 400 });
+    }
+    const status = EXPORT_STATUSES.find(option => option === (searchParams.get('status') || 'approved'));
+    if (!status) {
+      return NextResponse.json({ error: `Status must be one of ${EXPORT_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const entries = await exportRounds({ status, topic: searchParams.get('topic') || undefined });
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(serializeRoundFile(entries, format), {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="gossaip-rounds-${status}-${date}.${format}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error exporting rounds:', error);
+    return NextResponse.json({ error: 'Failed to export rounds' }, { status: 500 });
+  }
+}
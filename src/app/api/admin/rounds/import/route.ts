@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { requireAdmin } from '@/lib/curation/auth';
+import { importRounds } from '@/lib/curation/review';
+import { parseRoundFile } from '@/lib/curation/roundFile';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+// Takes a round file (JSON or JSONL) as the request body; ?status=pending queues its rounds for review instead of approving them
+export async function POST(request: Request) {
+  try {
+    requireAdmin();
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'approved';
+    if (status !== 'approved' && status !== 'pending') {
+      return NextResponse.json({ error: 'Status must be approved or pending' }, { status: 400 });
+    }
+    const text = await request.text();
+    if (Buffer.byteLength(text) > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'Round files are limited to 5 MB' }, { status: 413 });
+    }
+
+    const result = await importRounds(parseRoundFile(text), status);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error importing rounds:', error);
+    return NextResponse.json({ error: 'Failed to import rounds' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { requireAdmin } from '@/lib/curation/auth';
+import { REVIEW_QUEUES } from '@/lib/curation/options';
+import { listReviewRounds, parseReviewQueue } from '@/lib/curation/review';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  try {
+    requireAdmin();
+    const { searchParams } = new URL(request.url);
+    const queueParam = searchParams.get('queue');
+    const queue = parseReviewQueue(queueParam);
+    if (queueParam && !queue) {
+      return NextResponse.json({ error: `Queue must be one of ${REVIEW_QUEUES.join(', ')}` }, { status: 400 });
+    }
+    const rounds = await listReviewRounds({
+      queue,
+      topic: searchParams.get('topic') || undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+    });
+    return NextResponse.json({ rounds });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error listing rounds for review:', error);
+    return NextResponse.json({ error: 'Failed to list rounds' }, { status: 500 });
+  }
+}
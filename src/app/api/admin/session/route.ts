@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { isAdmin, isAdminEnabled, logIn, logOut } from '@/lib/curation/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  return NextResponse.json({ enabled: isAdminEnabled(), authenticated: isAdmin() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    logIn(body?.secret);
+    return NextResponse.json({ enabled: true, authenticated: true });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error logging in:', error);
+    return NextResponse.json({ error: 'Failed to log in' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  logOut();
+  return NextResponse.json({ enabled: isAdminEnabled(), authenticated: false });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { getChallengeDay, getDailyInfo, startDailyGame } from '@/lib/game/daily';
+import { parseLocale } from '@/lib/i18n/locales';
+import { toGameState } from '@/lib/game/store';
+import { getOrCreatePlayerId, getPlayerId } from '@/lib/player';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getDailyInfo(getChallengeDay(), getPlayerId()));
+  } catch (error) {
+    console.error('Error fetching daily challenge:', error);
+    return NextResponse.json({ error: 'Failed to fetch daily challenge' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const game = await startDailyGame(getOrCreatePlayerId(), parseLocale(body?.locale));
+    return NextResponse.json(toGameState(game), { status: 201 });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error starting daily challenge:', error);
+    return NextResponse.json({ error: 'Failed to start daily challenge' }, { status: 500 });
+  }
+}
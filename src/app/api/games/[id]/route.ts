@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { GameError, getGame, toGameState } from '@/lib/game/store';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    return NextResponse.json(toGameState(getGame(params.id)));
+  } catch (error) {
+    if (error instanceof GameError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reading game:', error);
+    return NextResponse.json({ error: 'Failed to read game' }, { status: 500 });
+  }
+}
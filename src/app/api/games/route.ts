@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { isApprovedOnlyForced, requireBankRounds } from '@/lib/curation/bank';
+import { clampRoundLimit, parseGameMode } from '@/lib/game/modes';
+import { parseLocale } from '@/lib/i18n/locales';
+import { createGame, toGameState } from '@/lib/game/store';
+import { parseDifficultyMode } from '@/lib/pipeline/difficulty';
+import { moderateTopic } from '@/lib/pipeline/moderation';
+import { resolveRoundOptions } from '@/lib/pipeline/handler';
+import { warmRoundPool } from '@/lib/pipeline/pool';
+import { parseSourcesParam, parseSubredditList } from '@/lib/sources';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const topic = typeof body?.topic === 'string' ? body.topic.trim() : '';
+
+    if (!topic) {
+      return NextResponse.json({ error: 'Topic is required' }, { status: 400 });
+    }
+
+    moderateTopic(topic);
+    const mode = parseGameMode(body?.mode) ?? 'timed';
+    const roundLimit = mode === 'fixed' ? clampRoundLimit(body?.rounds) : undefined;
+    // A curated game ends once it has played every approved round on its topic
+    const approvedOnly = body?.approvedOnly === true || isApprovedOnlyForced();
+    const bankRounds = approvedOnly ? await requireBankRounds(topic) : undefined;
+    const game = createGame({
+      topic,
+      difficulty: parseDifficultyMode(body?.difficulty),
+      mode,
+      locale: parseLocale(body?.locale),
+      roundLimit: bankRounds === undefined ? roundLimit : Math.min(roundLimit ?? bankRounds, bankRounds),
+      approvedOnly,
+      sources: parseSourcesParam(Array.isArray(body?.sources) ? body.sources.join(',') : null),
+      subreddits: {
+        include: parseSubredditList(body?.subreddits),
+        exclude: parseSubredditList(body?.excludeSubreddits),
+      },
+    });
+
+    // Start generating rounds now so the first "Next Gossip!" doesn't wait on the pipeline
+    try {
+      if (!approvedOnly) {
+        warmRoundPool(resolveRoundOptions({ topic, game, params: new URLSearchParams() }));
+      }
+    } catch (error) {
+      console.error('Error warming round pool:', error);
+    }
+    return NextResponse.json(toGameState(game), { status: 201 });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating game:', error);
+    return NextResponse.json({ error: 'Failed to create game' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { RoundProgress, RoundStage, RoundStreamEvent } from '@/types/gossip';
+import { HttpError } from '@/lib/errors';
+import { serveRound } from '@/lib/pipeline/handler';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+function nextStage(progress: RoundProgress): RoundStage {
+  switch (progress.type) {
+    case 'source':
+      return 'real';
+    case 'real':
+      return 'decoy';
+    case 'decoy':
+      return progress.ready === progress.total ? 'round' : 'decoy';
+  }
+}
+
+// Streaming variant of /api/gossip: progress events as SSE, then the round without its answer
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const topic = url.searchParams.get('topic');
+  const gameId = url.searchParams.get('gameId') || undefined;
+  const encoder = new TextEncoder();
+  // Set once the client goes away; generation carries on (the round is still served to the game) but nothing is sent
+  let closed = false;
+  request.signal.addEventListener('abort', () => {
+    closed = true;
+  });
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let stage: RoundStage = 'source';
+      const send = (event: RoundStreamEvent) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        }
+      };
+
+      try {
+        if (!topic) {
+          throw new HttpError('Topic is required', 400);
+        }
+        const round = await serveRound({
+          topic,
+          gameId,
+          params: url.searchParams,
+          defaultDecoyCount: 2,
+          onProgress: progress => {
+            send(progress);
+            stage = nextStage(progress);
+          },
+        });
+        send({ type: 'round', round });
+      } catch (error) {
+        if (!(error instanceof HttpError)) {
+          console.error('Error streaming round:', error);
+        }
+        send({
+          type: 'round-error',
+          stage,
+          status: error instanceof HttpError ? error.status : 500,
+          message: error instanceof Error ? error.message : 'Failed to generate gossip',
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { LeaderboardScope } from '@/types/leaderboard';
+import { HttpError } from '@/lib/errors';
+import { parseGameMode } from '@/lib/game/modes';
+import { getLeaderboard, submitGame } from '@/lib/leaderboard';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const SCOPES: LeaderboardScope[] = ['all', 'daily', 'topic', 'challenge'];
+const MAX_LIMIT = 50;
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const scope = (searchParams.get('scope') || 'all') as LeaderboardScope;
+    const topic = searchParams.get('topic')?.trim();
+    const mode = searchParams.get('mode') || 'timed';
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(searchParams.get('limit')) || 10));
+
+    if (!SCOPES.includes(scope)) {
+      return NextResponse.json({ error: `Unknown scope: ${scope}` }, { status: 400 });
+    }
+    if (scope === 'topic' && !topic) {
+      return NextResponse.json({ error: 'Topic is required' }, { status: 400 });
+    }
+    const gameMode = parseGameMode(mode);
+    if (!gameMode) {
+      return NextResponse.json({ error: `Unknown mode: ${mode}` }, { status: 400 });
+    }
+
+    return NextResponse.json({ scope, mode: gameMode, entries: await getLeaderboard(scope, { topic, mode: gameMode, limit }) });
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+    return NextResponse.json({ error: 'Failed to fetch leaderboard' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const gameId = typeof body?.gameId === 'string' ? body.gameId : '';
+
+    if (!gameId) {
+      return NextResponse.json({ error: 'Game id is required' }, { status: 400 });
+    }
+
+    return NextResponse.json(await submitGame(gameId, body?.nickname), { status: 201 });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error submitting score:', error);
+    return NextResponse.json({ error: 'Failed to submit score' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { getProfile, syncProfile } from '@/lib/profile/store';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// The profile's sync token comes as a bearer token, so it stays out of URLs and logs
+function readToken(request: Request) {
+  const authorization = request.headers.get('authorization') ?? '';
+  return authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined;
+}
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    return NextResponse.json(await getProfile(params.id, readToken(request)));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching profile:', error);
+    return NextResponse.json({ error: 'Failed to fetch profile' }, { status: 500 });
+  }
+}
+
+// Merges the browser's games into the stored profile and returns the result, so devices converge
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    return NextResponse.json(await syncProfile(params.id, readToken(request), body?.games));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error syncing profile:', error);
+    return NextResponse.json({ error: 'Failed to sync profile' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { submitRoomAnswer } from '@/lib/game/rooms';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(request: Request, { params }: { params: { code: string } }) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    return NextResponse.json(submitRoomAnswer(params.code, body?.token, Number(body?.index)));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error submitting room answer:', error);
+    return NextResponse.json({ error: 'Failed to submit answer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { subscribeToRoom } from '@/lib/game/rooms';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Keeps proxies from closing an idle stream while the room sits in the lobby
+const KEEPALIVE_MS = 15 * 1000;
+
+// Live room updates over SSE: a `state` event with the full room state on every change
+export async function GET(request: Request, { params }: { params: { code: string } }) {
+  const token = new URL(request.url).searchParams.get('token');
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let closed = false;
+  let stop = () => undefined as void;
+
+  // start() runs synchronously, so the controller is ready before we subscribe
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+    cancel() {
+      stop();
+    },
+  });
+  const send = (chunk: string) => {
+    if (!closed) {
+      controller.enqueue(encoder.encode(chunk));
+    }
+  };
+
+  try {
+    const unsubscribe = subscribeToRoom(params.code, token, state => {
+      send(`event: state\ndata: ${JSON.stringify(state)}\n\n`);
+    });
+    const keepalive = setInterval(() => send(': ping\n\n'), KEEPALIVE_MS);
+    stop = () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      clearInterval(keepalive);
+      unsubscribe();
+    };
+    request.signal.addEventListener('abort', () => {
+      if (!closed) {
+        stop();
+        controller.close();
+      }
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error subscribing to room:', error);
+    return NextResponse.json({ error: 'Failed to open room stream' }, { status: 500 });
+  }
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
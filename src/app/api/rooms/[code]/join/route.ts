@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { joinRoom } from '@/lib/game/rooms';
+import { sanitizeNickname } from '@/lib/leaderboard';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(request: Request, { params }: { params: { code: string } }) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    return NextResponse.json(joinRoom(params.code, sanitizeNickname(body?.nickname)), { status: 201 });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error joining room:', error);
+    return NextResponse.json({ error: 'Failed to join room' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { startNextRound } from '@/lib/game/rooms';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(request: Request, { params }: { params: { code: string } }) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    return NextResponse.json(await startNextRound(params.code, body?.token));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error starting room round:', error);
+    return NextResponse.json({ error: 'Failed to start round' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { getRoomState } from '@/lib/game/rooms';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(_request: Request, { params }: { params: { code: string } }) {
+  try {
+    return NextResponse.json(getRoomState(params.code));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching room:', error);
+    return NextResponse.json({ error: 'Failed to fetch room' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { createRoom } from '@/lib/game/rooms';
+import { parseLocale } from '@/lib/i18n/locales';
+import { sanitizeNickname } from '@/lib/leaderboard';
+import { parseDifficultyMode } from '@/lib/pipeline/difficulty';
+import { moderateTopic } from '@/lib/pipeline/moderation';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const topic = typeof body?.topic === 'string' ? body.topic.trim() : '';
+
+    if (!topic) {
+      return NextResponse.json({ error: 'Topic is required' }, { status: 400 });
+    }
+
+    moderateTopic(topic);
+    const result = createRoom({
+      topic,
+      nickname: sanitizeNickname(body?.nickname),
+      difficulty: parseDifficultyMode(body?.difficulty),
+      locale: parseLocale(body?.locale),
+      rounds: Number(body?.rounds) || undefined,
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating room:', error);
+    return NextResponse.json({ error: 'Failed to create room' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { checkSavedGuess } from '@/lib/game/rounds';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    return NextResponse.json(await checkSavedGuess(params.id, Number(body?.index)));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error checking guess:', error);
+    return NextResponse.json({ error: 'Failed to check guess' }, { status: 500 });
+  }
+}
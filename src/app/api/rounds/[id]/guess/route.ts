@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { parseWager } from '@/lib/game/scoring';
+import { submitGuess } from '@/lib/game/store';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const index = Number(body?.index);
+
+    return NextResponse.json(submitGuess(params.id, index, parseWager(body?.wager)));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error submitting guess:', error);
+    return NextResponse.json({ error: 'Failed to submit guess' }, { status: 500 });
+  }
+}
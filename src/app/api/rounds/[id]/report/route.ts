@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { reportRound } from '@/lib/curation/review';
+import { getOrCreatePlayerId } from '@/lib/player';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Player reports land in the curators' review queue
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const report = await reportRound(params.id, { reason: body?.reason, note: body?.note }, getOrCreatePlayerId());
+    return NextResponse.json({ id: report.id }, { status: 201 });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reporting round:', error);
+    return NextResponse.json({ error: 'Failed to report round' }, { status: 500 });
+  }
+}
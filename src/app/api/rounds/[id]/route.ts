@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { getSavedRound } from '@/lib/game/rounds';
+import { toPublicRound } from '@/lib/game/store';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    return NextResponse.json(toPublicRound(await getSavedRound(params.id)));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching round:', error);
+    return NextResponse.json({ error: 'Failed to fetch round' }, { status: 500 });
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { listSources } from '@/lib/sources';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  return NextResponse.json({ sources: listSources() });
+}
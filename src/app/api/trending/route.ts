@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { getTrendingTopics } from '@/lib/trending';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 20;
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const limitParam = Number(url.searchParams.get('limit'));
+    const limit = Number.isFinite(limitParam) && limitParam > 0
+      ? Math.min(MAX_LIMIT, Math.round(limitParam))
+      : DEFAULT_LIMIT;
+
+    const { topics, updatedAt } = await getTrendingTopics();
+    return NextResponse.json({ topics: topics.slice(0, limit), updatedAt });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching trending topics:', error);
+    return NextResponse.json({ error: 'Failed to fetch trending topics' }, { status: 500 });
+  }
+}
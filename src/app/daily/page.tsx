@@ -0,0 +1,19 @@
+'use client';
+
+import { lazy, Suspense } from 'react';
+import GameLayout from '@/components/GameLayout';
+
+const GossipGame = lazy(() => import('@/components/GossipGame'));
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'edge';
+
+export default function DailyPage() {
+  return (
+    <GameLayout>
+      <Suspense fallback={<div>Loading...</div>}>
+        <GossipGame daily />
+      </Suspense>
+    </GameLayout>
+  );
+}
@@ -1,10 +1,14 @@
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
 import './globals.css'
+import LocaleProvider from '@/components/LocaleProvider'
+import LanguageSwitcher from '@/components/LanguageSwitcher'
 
 const inter = Inter({ subsets: ['latin'] })
 
 export const metadata: Metadata = {
+  // Absolute base for Open Graph and Twitter image URLs
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'),
 
   title: 'GossAIP - Your AI Gossip Companion',
   description: 'Stay in the loop with all the hottest topics, trending debates, and juiciest discussions',
@@ -25,7 +29,10 @@ export default function RootLayout({
         <link rel="icon" href="/gossip-icon.png" />
       </head>
       <body className={`${inter.className} min-h-screen bg-gradient-to-b from-purple-900 via-purple-800 to-indigo-900`}>
-        {children}
+        <LocaleProvider>
+          <LanguageSwitcher />
+          {children}
+        </LocaleProvider>
       </body>
     </html>
   )
@@ -1,12 +1,25 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { TrendingTopic } from '@/types/trending';
+import { useI18n } from '@/components/LocaleProvider';
 
 export default function Home() {
+  const { t } = useI18n();
   const [topic, setTopic] = useState('');
+  const [trending, setTrending] = useState<TrendingTopic[]>([]);
   const router = useRouter();
 
+  // The chips are a shortcut; the page works the same when trending topics can't be fetched
+  useEffect(() => {
+    fetch('/api/trending?limit=8')
+      .then(response => (response.ok ? response.json() : { topics: [] }))
+      .then((data: { topics: TrendingTopic[] }) => setTrending(data.topics))
+      .catch(error => console.error('Error fetching trending topics:', error));
+  }, []);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (topic.trim()) {
@@ -45,7 +58,7 @@ export default function Home() {
               </span>
             </h1>
             <p className="text-2xl md:text-3xl text-purple-100 max-w-3xl mx-auto leading-relaxed animate-fade-in">
-              Your AI-powered gossip companion that knows all the juicy details
+              {t('home.tagline')}
             </p>
           </div>
 
@@ -53,13 +66,13 @@ export default function Home() {
           <div className="bg-black/30 backdrop-blur-lg rounded-3xl p-8 md:p-12 shadow-2xl max-w-3xl mx-auto transform hover:scale-105 transition-all duration-300 border border-white/10">
             <div className="space-y-8">
               <h2 className="text-3xl md:text-4xl font-semibold text-white flex items-center justify-center gap-3">
-                Ready to Spill the Tea? 
+                {t('home.title')}
                 <span className="animate-bounce">🫖</span>
               </h2>
               
               <div className="space-y-4">
                 <p className="text-lg md:text-xl text-purple-100">
-                  From celebrity scandals to tech world drama, I've got all the hot gossip ready for you!
+                  {t('home.intro')}
                 </p>
               </div>
 
@@ -71,7 +84,7 @@ export default function Home() {
                     id="topic"
                     value={topic}
                     onChange={(e) => setTopic(e.target.value)}
-                    placeholder="Celebrity drama? Tech world tea? You name it!"
+                    placeholder={t('home.placeholder')}
                     className="relative w-full px-6 py-4 md:px-8 md:py-6 rounded-xl bg-black/50 backdrop-blur-sm border-2 border-purple-300/50 
                              focus:border-purple-400 focus:ring-2 focus:ring-purple-400 focus:outline-none 
                              text-white text-lg md:text-xl placeholder-purple-200/70 transition-all"
@@ -86,18 +99,55 @@ export default function Home() {
                   disabled={!topic.trim()}
                 >
                   <div className="absolute inset-0 w-3 bg-white transform skew-x-[20deg] group-hover:translate-x-[500px] transition-all duration-1000"></div>
-                  Let's Gossip! 💅
+                  {t('home.submit')}
                 </button>
               </form>
+
+              {trending.length > 0 && (
+                <div className="space-y-3">
+                  <p className="text-purple-200">{t('home.trending')}</p>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {trending.map(item => (
+                      <Link
+                        key={item.topic}
+                        href={`/quiz?topic=${encodeURIComponent(item.topic)}`}
+                        title={t(item.posts === 1 ? 'home.trendingPost' : 'home.trendingPosts', { count: item.posts })}
+                        className="px-4 py-2 rounded-full bg-white/10 border border-white/20 text-white hover:bg-purple-500/40 hover:border-purple-300/60 transition-colors"
+                      >
+                        {item.topic}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <Link
+                href="/daily"
+                className="inline-block text-lg text-purple-200 hover:text-white underline underline-offset-4 transition-colors"
+              >
+                {t('home.daily')}
+              </Link>
+              <Link
+                href="/rooms"
+                className="block text-lg text-purple-200 hover:text-white underline underline-offset-4 transition-colors"
+              >
+                {t('home.rooms')}
+              </Link>
+              <Link
+                href="/stats"
+                className="block text-lg text-purple-200 hover:text-white underline underline-offset-4 transition-colors"
+              >
+                {t('home.stats')}
+              </Link>
             </div>
           </div>
 
           {/* Features Section */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 md:gap-8 mt-16 max-w-5xl mx-auto">
             {[
-              { icon: '🎯', title: 'Trending Topics', desc: 'Stay updated with the hottest discussions' },
-              { icon: '🔍', title: 'Deep Insights', desc: 'Get the inside scoop on any subject' },
-              { icon: '🎮', title: 'Fun Quizzes', desc: 'Test your gossip knowledge' }
+              { icon: '🎯', title: t('home.feature.trending.title'), desc: t('home.feature.trending.desc') },
+              { icon: '🔍', title: t('home.feature.insights.title'), desc: t('home.feature.insights.desc') },
+              { icon: '🎮', title: t('home.feature.quizzes.title'), desc: t('home.feature.quizzes.desc') }
             ].map((feature, i) => (
               <div key={i} 
                    className="group bg-black/20 backdrop-blur-sm rounded-2xl p-6 transform hover:scale-105 transition-all duration-300 
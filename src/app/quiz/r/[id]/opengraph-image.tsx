@@ -0,0 +1,38 @@
+import { ImageResponse } from 'next/og';
+import { getSavedRound } from '@/lib/game/rounds';
+
+export const runtime = 'nodejs';
+export const alt = 'A GossAIP round: spot the real gossip';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+export default async function Image({ params }: { params: { id: string } }) {
+  const round = await getSavedRound(params.id).catch(() => undefined);
+  const topic = round?.topic ?? 'the latest tea';
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: 'linear-gradient(180deg, #581c87 0%, #6b21a8 50%, #312e81 100%)',
+          color: 'white',
+          padding: 80,
+          textAlign: 'center',
+        }}
+      >
+        <div style={{ fontSize: 48, color: '#f9a8d4', marginBottom: 24 }}>GossAIP</div>
+        <div style={{ fontSize: 80, fontWeight: 700, lineHeight: 1.1 }}>{topic}</div>
+        <div style={{ fontSize: 40, color: '#e9d5ff', marginTop: 40 }}>
+          {`${round ? `${round.stories.length} stories.` : 'Spill the tea.'} Only one is real. Can you spot it?`}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
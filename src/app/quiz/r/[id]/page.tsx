@@ -0,0 +1,45 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import GameLayout from '@/components/GameLayout';
+import SharedRound from '@/components/SharedRound';
+import { HttpError } from '@/lib/errors';
+import { getSavedRound } from '@/lib/game/rounds';
+import { toPublicRound } from '@/lib/game/store';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function loadRound(id: string) {
+  try {
+    return await getSavedRound(id);
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 404) {
+      notFound();
+    }
+    throw error;
+  }
+}
+
+export async function generateMetadata({ params }: { params: { id: string } }): Promise<Metadata> {
+  const round = await loadRound(params.id);
+  const title = `Can you spot the real ${round.topic} gossip?`;
+  const description = `${round.stories.length} stories, only one of them is real. Take a guess on GossAIP!`;
+
+  // The preview images come from the opengraph-image and twitter-image files next to this page
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: 'website', url: `/quiz/r/${round.id}` },
+    twitter: { card: 'summary_large_image', title, description },
+  };
+}
+
+export default async function SharedRoundPage({ params }: { params: { id: string } }) {
+  const round = await loadRound(params.id);
+
+  return (
+    <GameLayout>
+      <SharedRound round={toPublicRound(round)} />
+    </GameLayout>
+  );
+}
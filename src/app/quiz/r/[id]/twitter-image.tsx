@@ -0,0 +1,3 @@
+export { default, alt, size, contentType } from './opengraph-image';
+
+export const runtime = 'nodejs';
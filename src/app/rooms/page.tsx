@@ -0,0 +1,19 @@
+'use client';
+
+import { lazy, Suspense } from 'react';
+import GameLayout from '@/components/GameLayout';
+
+const RoomGame = lazy(() => import('@/components/RoomGame'));
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'edge';
+
+export default function RoomsPage() {
+  return (
+    <GameLayout>
+      <Suspense fallback={<div>Loading...</div>}>
+        <RoomGame />
+      </Suspense>
+    </GameLayout>
+  );
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { lazy, Suspense } from 'react';
+import GameLayout from '@/components/GameLayout';
+
+const PlayerStats = lazy(() => import('@/components/PlayerStats'));
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'edge';
+
+export default function StatsPage() {
+  return (
+    <GameLayout>
+      <Suspense fallback={<div>Loading...</div>}>
+        <PlayerStats />
+      </Suspense>
+    </GameLayout>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ReviewQueue, ReviewRoundSummary } from '@/types/curation';
+import { REVIEW_QUEUES } from '@/lib/curation/options';
+import ReviewRoundEditor from './ReviewRoundEditor';
+import RoundFilePanel from './RoundFilePanel';
+
+interface AdminSession {
+  enabled: boolean;
+  authenticated: boolean;
+}
+
+const QUEUE_LABELS: Record<ReviewQueue, string> = {
+  reported: 'Reported 🚩',
+  pending: 'To review 🕵️',
+  approved: 'Round bank ✅',
+  flagged: 'Flagged ⛔',
+};
+
+// Curators review generated rounds here; the shared secret is checked on the server and kept in an httpOnly cookie
+export default function AdminConsole() {
+  const [session, setSession] = useState<AdminSession | null>(null);
+  const [secret, setSecret] = useState('');
+  const [loginError, setLoginError] = useState('');
+  const [queue, setQueue] = useState<ReviewQueue>('reported');
+  const [topic, setTopic] = useState('');
+  const [rounds, setRounds] = useState<ReviewRoundSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/admin/session')
+      .then(response => response.json())
+      .then(setSession)
+      .catch(error => console.error('Error fetching admin session:', error));
+  }, []);
+
+  const loadRounds = useCallback(() => {
+    const params = new URLSearchParams({ queue });
+    if (topic.trim()) {
+      params.set('topic', topic.trim());
+    }
+    fetch(`/api/admin/rounds?${params}`)
+      .then(async response => {
+        if (response.status === 401) {
+          setSession(prev => prev && { ...prev, authenticated: false });
+          return { rounds: [] };
+        }
+        return response.ok ? response.json() : { rounds: [] };
+      })
+      .then((data: { rounds: ReviewRoundSummary[] }) => setRounds(data.rounds))
+      .catch(error => console.error('Error fetching rounds:', error));
+  }, [queue, topic]);
+
+  useEffect(() => {
+    if (session?.authenticated) {
+      loadRounds();
+    }
+  }, [session?.authenticated, loadRounds]);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoginError('');
+    try {
+      const response = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ secret }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to log in');
+      }
+      setSecret('');
+      setSession(data);
+    } catch (error) {
+      console.error('Error logging in:', error);
+      setLoginError(error instanceof Error ? error.message : 'Failed to log in');
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      const response = await fetch('/api/admin/session', { method: 'DELETE' });
+      setSession(await response.json());
+      setSelectedId(null);
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
+  };
+
+  const panel = 'max-w-6xl mx-auto p-8 bg-gradient-to-br from-purple-900/80 to-pink-900/80 backdrop-blur-lg rounded-2xl shadow-2xl border-2 border-purple-400/30 text-white';
+
+  if (!session) {
+    return <div className="text-center text-white">Loading...</div>;
+  }
+
+  if (!session.enabled) {
+    return (
+      <div className={`${panel} max-w-xl text-center space-y-2`}>
+        <h1 className="text-3xl font-bold">Curation console</h1>
+        <p className="text-white/70">The admin console is disabled. Set GOSSIP_ADMIN_SECRET on the server to turn it on.</p>
+      </div>
+    );
+  }
+
+  if (!session.authenticated) {
+    return (
+      <form onSubmit={handleLogin} className={`${panel} max-w-xl space-y-4`}>
+        <h1 className="text-3xl font-bold text-center">Curation console</h1>
+        <input
+          type="password"
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          placeholder="Admin secret"
+          aria-label="Admin secret"
+          autoComplete="current-password"
+          className="w-full p-4 rounded-xl bg-white/20 text-white placeholder-white/50 border-2 border-white/10 focus:border-purple-400/50 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!secret}
+          className="w-full px-6 py-3 bg-purple-600 rounded-xl hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          Log in 🔑
+        </button>
+        {loginError && <p role="alert" className="text-center text-red-300">{loginError}</p>}
+      </form>
+    );
+  }
+
+  return (
+    <div className={`${panel} space-y-6`}>
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Curation console</h1>
+        <button onClick={handleLogout} className="text-purple-200 hover:text-white underline underline-offset-4 transition-colors">
+          Log out
+        </button>
+      </div>
+
+      <RoundFilePanel onImported={loadRounds} />
+
+      <div className="flex flex-wrap gap-2">
+        {REVIEW_QUEUES.map(option => (
+          <button
+            key={option}
+            type="button"
+            aria-pressed={queue === option}
+            onClick={() => setQueue(option)}
+            className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors border-2 ${
+              queue === option
+                ? 'bg-purple-500/40 border-purple-300/60 text-white'
+                : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+            }`}
+          >
+            {QUEUE_LABELS[option]}
+          </button>
+        ))}
+        <input
+          type="search"
+          value={topic}
+          onChange={(e) => setTopic(e.target.value)}
+          placeholder="Filter by topic"
+          aria-label="Filter by topic"
+          className="flex-1 min-w-[12rem] p-2 rounded-xl bg-white/20 text-white placeholder-white/50 border-2 border-white/10 focus:border-purple-400/50 outline-none"
+        />
+      </div>
+
+      <div className="grid md:grid-cols-[2fr_3fr] gap-6">
+        <ul className="space-y-2 max-h-[70vh] overflow-y-auto">
+          {rounds.length === 0 && <li className="text-white/60">Nothing in this queue 🎉</li>}
+          {rounds.map(round => (
+            <li key={round.id}>
+              <button
+                type="button"
+                aria-pressed={selectedId === round.id}
+                onClick={() => setSelectedId(round.id)}
+                className={`w-full text-left p-3 rounded-xl border-2 transition-colors ${
+                  selectedId === round.id ? 'bg-purple-500/30 border-purple-300/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+                }`}
+              >
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{round.topic}</span>
+                  <span className="text-white/60">
+                    {round.openReports > 0 ? `🚩 ${round.openReports} · ` : ''}
+                    <span className="capitalize">{round.status}</span>
+                  </span>
+                </div>
+                <p className="text-sm text-white/70 line-clamp-2">{round.preview}</p>
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div>
+          {selectedId
+            ? <ReviewRoundEditor roundId={selectedId} onReviewed={loadRounds} />
+            : <p className="text-white/60">Pick a round to review it.</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { GossipGameState, ScoreBreakdown } from '@/types/gossip';
+import { useI18n } from './LocaleProvider';
+
+// One square per round: green for a real story spotted, red for a miss
+export function getResultGrid(results: boolean[], rounds = results.length) {
+  return Array.from({ length: rounds }, (_, index) =>
+    index < results.length ? (results[index] ? '🟩' : '🟥') : '⬜'
+  ).join('');
+}
+
+function StatCard({ value, label, accent }: { value: string | number; label: string; accent: 'purple' | 'pink' }) {
+  return (
+    <div className="bg-white/10 p-6 rounded-xl backdrop-blur-md transform hover:scale-105 transition-all">
+      <div className={`text-4xl font-bold mb-2 ${accent === 'purple' ? 'text-purple-300' : 'text-pink-300'}`}>{value}</div>
+      <div className={accent === 'purple' ? 'text-purple-200' : 'text-pink-200'}>{label}</div>
+    </div>
+  );
+}
+
+function formatSeconds(seconds: number) {
+  return `${seconds.toFixed(seconds < 10 ? 1 : 0)}s`;
+}
+
+function sum(scoring: ScoreBreakdown[], pick: (breakdown: ScoreBreakdown) => number) {
+  return scoring.reduce((total, breakdown) => total + pick(breakdown), 0);
+}
+
+// Where the game's points came from, added up over every scored guess
+function PointsSummary({ points, scoring }: { points: number; scoring: ScoreBreakdown[] }) {
+  const { t } = useI18n();
+  const parts = [
+    { label: t('summary.base'), value: sum(scoring, breakdown => breakdown.base) },
+    { label: t('summary.speed'), value: sum(scoring, breakdown => breakdown.speedBonus) },
+    { label: t('summary.streaks'), value: sum(scoring, breakdown => breakdown.streakBonus) },
+    { label: t('summary.bets'), value: sum(scoring, breakdown => breakdown.wagerPoints) },
+  ];
+  return (
+    <div className="bg-white/10 p-6 rounded-xl backdrop-blur-md space-y-3">
+      <div className="text-5xl font-bold text-yellow-200">{t('summary.points', { points })}</div>
+      <div className="grid grid-cols-4 gap-2 text-sm">
+        {parts.map(part => (
+          <div key={part.label}>
+            <div className={`text-lg font-semibold ${part.value < 0 ? 'text-red-300' : 'text-white'}`}>
+              {part.value > 0 ? '+' : ''}{part.value}
+            </div>
+            <div className="text-white/60">{part.label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function GameSummary({ state }: { state: GossipGameState }) {
+  return (
+    <div className="space-y-6">
+      <PointsSummary points={state.points} scoring={state.scoring} />
+      <ModeSummary state={state} />
+    </div>
+  );
+}
+
+// The numbers that matter differ per mode: a minute's haul, a streak, a fixed set, or survival speed
+function ModeSummary({ state }: { state: GossipGameState }) {
+  const { t } = useI18n();
+  const { mode, score, attempts, bestStreak, results, scoring, roundLimit, endReason } = state;
+  const accuracy = attempts > 0 ? Math.round((score / attempts) * 100) : 0;
+
+  if (mode === 'endless') {
+    return (
+      <div className="space-y-4">
+        {endReason && <p className="text-xl text-white/80">{t(`summary.end.${endReason}`)}</p>}
+        <div className="grid grid-cols-2 gap-6">
+          <StatCard value={`🔥 ${bestStreak}`} label={t('summary.bestStreak')} accent="purple" />
+          <StatCard value={attempts} label={t('summary.roundsPlayed')} accent="pink" />
+        </div>
+      </div>
+    );
+  }
+
+  if (mode === 'fixed') {
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-6">
+          <StatCard value={`${score}/${roundLimit ?? attempts}`} label={t('summary.spotted')} accent="purple" />
+          <StatCard value={`${accuracy}%`} label={t('summary.accuracy')} accent="pink" />
+        </div>
+        <p className="text-4xl tracking-widest">{getResultGrid(results, roundLimit ?? results.length)}</p>
+      </div>
+    );
+  }
+
+  if (mode === 'sudden-death') {
+    const answerSeconds = scoring.map(breakdown => breakdown.answerSeconds);
+    const fastest = answerSeconds.length > 0 ? Math.min(...answerSeconds) : null;
+    const average = answerSeconds.length > 0
+      ? answerSeconds.reduce((total, seconds) => total + seconds, 0) / answerSeconds.length
+      : null;
+    return (
+      <div className="space-y-4">
+        {endReason && <p className="text-xl text-white/80">{t(`summary.end.${endReason}`)}</p>}
+        <div className="grid grid-cols-3 gap-6">
+          <StatCard value={score} label={t('summary.survived')} accent="purple" />
+          <StatCard value={fastest === null ? '–' : formatSeconds(fastest)} label={t('summary.fastest')} accent="pink" />
+          <StatCard value={average === null ? '–' : formatSeconds(average)} label={t('summary.average')} accent="purple" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-6">
+      <StatCard value={score} label={t('summary.correct')} accent="purple" />
+      <StatCard value={attempts} label={t('summary.attempts')} accent="pink" />
+      <StatCard value={`${accuracy}%`} label={t('summary.accuracy')} accent="purple" />
+    </div>
+  );
+}
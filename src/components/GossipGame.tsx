@@ -1,102 +1,337 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useReducer, useRef } from 'react';
+import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
+import { SourceId, SourceInfo } from '@/types/content';
+import {
+  DailyChallengeInfo,
+  DifficultyMode,
+  GameMode,
+  GameSessionState,
+  GuessResult,
+  PublicRound,
+} from '@/types/gossip';
+import { gameReducer, initialGameState } from '@/lib/game/machine';
+import {
+  DEFAULT_FIXED_ROUNDS,
+  FIXED_ROUND_OPTIONS,
+  GAME_DURATION_SECONDS,
+  SUDDEN_DEATH_ROUND_SECONDS,
+  endsOnMiss,
+} from '@/lib/game/modes';
+import { WAGER_OPTIONS } from '@/lib/game/scoring';
+import { isSyncEnabled, recordGame, recordGuess, syncProfile } from '@/lib/profile/local';
+import GameSummary, { getResultGrid } from './GameSummary';
+import Leaderboard from './Leaderboard';
+import ReportRound from './ReportRound';
+import RoundScore from './RoundScore';
+import { useI18n } from './LocaleProvider';
 
-interface Story {
-  content: string;
-  isReal: boolean;
-  redditUrl?: string;
-}
+const DIFFICULTY_OPTIONS: DifficultyMode[] = ['easy', 'normal', 'hard', 'adaptive'];
+
+// Labels, descriptions and start buttons come from the message catalog under `mode.<mode>.*`
+const MODE_OPTIONS: GameMode[] = ['timed', 'endless', 'fixed', 'sudden-death'];
+
+// Seconds filled into the `mode.<mode>.description` messages
+const MODE_SECONDS: Partial<Record<GameMode, number>> = {
+  timed: GAME_DURATION_SECONDS,
+  'sudden-death': SUDDEN_DEATH_ROUND_SECONDS,
+};
+
+// Sudden death starts warning, out loud too, once this little is left on the round timer
+const ROUND_TIMER_WARNING_SECONDS = 5;
 
-interface GossipResponse {
-  topic: string;
-  stories: Story[];
-  correctIndex: number;
+// Keys typed into these never count as game shortcuts
+const TEXT_INPUTS = ['INPUT', 'TEXTAREA', 'SELECT'];
+
+// "popculturechat, -teenagers" -> search r/popculturechat, never r/teenagers
+function parseSubredditInput(value: string) {
+  const names = value.split(/[\s,]+/).map(name => name.trim()).filter(Boolean);
+  return {
+    subreddits: names.filter(name => !name.startsWith('-')),
+    excludeSubreddits: names.filter(name => name.startsWith('-')).map(name => name.slice(1)),
+  };
 }
 
-export default function GossipGame() {
+export default function GossipGame({ daily = false }: { daily?: boolean }) {
   const searchParams = useSearchParams();
+  const { locale, t } = useI18n();
   const [topic, setTopic] = useState(searchParams.get('topic') || '');
-  const [loading, setLoading] = useState(false);
-  const [stories, setStories] = useState<Story[]>([]);
-  const [correctIndex, setCorrectIndex] = useState<number>(-1);
-  const [selectedIndex, setSelectedIndex] = useState<number>(-1);
-  const [revealed, setRevealed] = useState(false);
-  const [gameStarted, setGameStarted] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(60); // 1 minute in seconds
-  const [score, setScore] = useState(0);
-  const [attempts, setAttempts] = useState(0);
-  const [gameOver, setGameOver] = useState(false);
+  const [state, dispatch] = useReducer(gameReducer, 'timed', initialGameState);
+  const [fixedRounds, setFixedRounds] = useState(DEFAULT_FIXED_ROUNDS);
+  const [availableSources, setAvailableSources] = useState<SourceInfo[]>([]);
+  const [selectedSources, setSelectedSources] = useState<SourceId[]>([]);
+  // Comma separated; a leading minus leaves a subreddit out instead
+  const [subredditInput, setSubredditInput] = useState('');
+  const [difficulty, setDifficulty] = useState<DifficultyMode>('normal');
+  // Only rounds curators approved into the round bank
+  const [approvedOnly, setApprovedOnly] = useState(false);
+  const [dailyInfo, setDailyInfo] = useState<DailyChallengeInfo | null>(null);
+  const [shareStatus, setShareStatus] = useState('');
+  const firstStoryRef = useRef<HTMLButtonElement>(null);
+  const nextButtonRef = useRef<HTMLButtonElement>(null);
+  const overHeadingRef = useRef<HTMLHeadingElement>(null);
 
   useEffect(() => {
-    let timer: NodeJS.Timeout;
-    if (gameStarted && !gameOver && timeLeft > 0) {
-      timer = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            setGameOver(true);
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+    fetch('/api/sources')
+      .then(response => (response.ok ? response.json() : { sources: [] }))
+      .then((data: { sources: SourceInfo[] }) => setAvailableSources(data.sources))
+      .catch(error => console.error('Error fetching sources:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!daily) {
+      return;
+    }
+    fetch('/api/daily')
+      .then(response => (response.ok ? response.json() : null))
+      .then((info: DailyChallengeInfo | null) => {
+        if (info) {
+          setDailyInfo(info);
+          setTopic(info.topic);
+        }
+      })
+      .catch(error => console.error('Error fetching daily challenge:', error));
+  }, [daily]);
+
+  const { phase, mode, gameId, roundId, stories, roundSource, roundDifficulty, progress, selectedIndex, correctIndex, score, results } = state;
+  const loading = phase === 'loading';
+  const revealed = phase === 'reveal';
+
+  // The reducer decides which clock, if any, a tick moves; loading rounds never count against the player
+  useEffect(() => {
+    if (phase !== 'question' && phase !== 'reveal') {
+      return;
     }
+    const timer = setInterval(() => dispatch({ type: 'tick' }), 1000);
     return () => clearInterval(timer);
-  }, [gameStarted, gameOver, timeLeft]);
+  }, [phase]);
+
+  // Keep keyboard and screen-reader users where the action is: the stories, then Next, then the results
+  useEffect(() => {
+    if (phase === 'question') {
+      firstStoryRef.current?.focus();
+    } else if (phase === 'reveal') {
+      nextButtonRef.current?.focus();
+    } else if (phase === 'over') {
+      overHeadingRef.current?.focus();
+    }
+  }, [phase, roundId]);
+
+  // Pick up the final server score once the game ends locally
+  useEffect(() => {
+    if (phase !== 'over' || !gameId) {
+      return;
+    }
+    fetch(`/api/games/${gameId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then((game: GameSessionState | null) => {
+        if (game) {
+          dispatch({ type: 'sync', game });
+          recordGame(game);
+          if (isSyncEnabled()) {
+            syncProfile().catch(error => console.error('Error syncing profile:', error));
+          }
+        }
+      })
+      .catch(error => console.error('Error refreshing game:', error));
+  }, [phase, gameId]);
 
-  const fetchGossip = async (searchTopic: string) => {
-    setLoading(true);
+  // Rounds stream in over SSE so the player can watch progress while the clock is paused
+  const fetchGossip = (searchTopic: string, currentGameId: string) => {
+    dispatch({ type: 'load' });
+    const params = new URLSearchParams({ topic: searchTopic, gameId: currentGameId });
+    const events = new EventSource(`/api/gossip/stream?${params}`);
+
+    events.addEventListener('source', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      dispatch({ type: 'progress', progress: { source: data.source } });
+    });
+    events.addEventListener('real', () => {
+      dispatch({ type: 'progress', progress: { realReady: true } });
+    });
+    events.addEventListener('decoy', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      dispatch({ type: 'progress', progress: { decoys: { ready: data.ready, total: data.total } } });
+    });
+    events.addEventListener('round', (event) => {
+      const { round }: { round: PublicRound } = JSON.parse((event as MessageEvent).data);
+      events.close();
+      setShareStatus('');
+      dispatch({ type: 'round', round });
+    });
+    events.addEventListener('round-error', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      events.close();
+      if (data.status === 410) {
+        dispatch({ type: 'end' });
+        return;
+      }
+      dispatch({ type: 'load-failed' });
+      console.error(`Error generating gossip at ${data.stage}:`, data.message);
+      alert(data.message || t('game.fetchFailed'));
+    });
+    events.onerror = () => {
+      events.close();
+      dispatch({ type: 'load-failed' });
+      alert(t('game.connectionLost'));
+    };
+  };
+
+  const handleStartGame = async () => {
+    if (!topic) {
+      return;
+    }
     try {
-      const response = await fetch(`/api/reddit?topic=${encodeURIComponent(searchTopic)}`);
+      const response = daily
+        ? await fetch('/api/daily', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ locale }),
+        })
+        : await fetch('/api/games', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            topic,
+            difficulty,
+            mode,
+            rounds: mode === 'fixed' ? fixedRounds : undefined,
+            locale,
+            approvedOnly,
+            sources: selectedSources,
+            ...parseSubredditInput(subredditInput),
+          }),
+        });
+      const data = await response.json();
       if (!response.ok) {
-        const data = await response.json();
-        if (data.suggestion) {
-          setTopic(data.suggestion);
-        }
-        throw new Error(data.error || 'Failed to fetch gossip');
+        throw new Error(data.error || t('game.startFailed'));
       }
-      const data: GossipResponse = await response.json();
-      setStories(data.stories);
-      setCorrectIndex(data.correctIndex);
-      setSelectedIndex(-1);
-      setRevealed(false);
+      const game: GameSessionState = data;
+      setShareStatus('');
+      dispatch({ type: 'start', game });
+      fetchGossip(topic, game.gameId);
     } catch (error) {
-      console.error('Error fetching gossip:', error);
-      alert(error instanceof Error ? error.message : 'Failed to fetch gossip');
-    } finally {
-      setLoading(false);
+      console.error('Error starting game:', error);
+      alert(error instanceof Error ? error.message : t('game.startFailed'));
     }
   };
 
-  const handleStartGame = () => {
-    setGameStarted(true);
-    setScore(0);
-    setAttempts(0);
-    setTimeLeft(60);
-    setGameOver(false);
-    if (topic) {
-      fetchGossip(topic);
-    }
+  const toggleSource = (id: SourceId) => {
+    setSelectedSources(prev =>
+      prev.includes(id) ? prev.filter(sourceId => sourceId !== id) : [...prev, id]
+    );
   };
 
   const handleNextGossip = () => {
-    if (topic) {
-      fetchGossip(topic);
+    if (topic && gameId) {
+      fetchGossip(topic, gameId);
     }
   };
 
-  const handleGuess = (index: number) => {
-    if (selectedIndex === -1 && !revealed) {
-      setSelectedIndex(index);
-      setRevealed(true);
-      setAttempts(prev => prev + 1);
-      if (index === correctIndex) {
-        setScore(prev => prev + 1);
+  const handleGuess = async (index: number) => {
+    if (!roundId || selectedIndex !== null || phase !== 'question') {
+      return;
+    }
+    dispatch({ type: 'select', index });
+    try {
+      const response = await fetch(`/api/rounds/${roundId}/guess`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ index, wager: state.wager ?? undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        if (response.status === 410) {
+          dispatch({ type: 'end' });
+          return;
+        }
+        throw new Error(data.error || t('game.guessFailed'));
+      }
+      const result: GuessResult = data;
+      dispatch({ type: 'reveal', result });
+      // Every guess goes into the local profile right away, so stats survive a reload mid-game
+      if (result.game) {
+        recordGuess(result.game, {
+          roundId: result.roundId,
+          difficulty: state.roundDifficulty ?? 'normal',
+          community: state.roundSource?.community,
+          isCorrect: result.isCorrect,
+          answerSeconds: result.scoring?.answerSeconds ?? 0,
+          points: result.scoring?.points ?? 0,
+        });
       }
+    } catch (error) {
+      console.error('Error submitting guess:', error);
+      dispatch({ type: 'select-failed' });
+      alert(error instanceof Error ? error.message : t('game.guessFailed'));
     }
   };
 
+  const handleShare = async () => {
+    if (!dailyInfo) {
+      return;
+    }
+    const text = [
+      `GossAIP Daily ${dailyInfo.day} · ${dailyInfo.topic}`,
+      `${score}/${dailyInfo.rounds} ${getResultGrid(results, dailyInfo.rounds)}`,
+      `${window.location.origin}/daily`,
+    ].join('\n');
+    try {
+      if (navigator.share) {
+        await navigator.share({ text });
+      } else {
+        await navigator.clipboard.writeText(text);
+        setShareStatus(t('game.copied'));
+      }
+    } catch (error) {
+      console.error('Error sharing results:', error);
+    }
+  };
+
+  // Every served round is saved, so it can be replayed by anyone from its permalink
+  const handleShareRound = async () => {
+    if (!roundId) {
+      return;
+    }
+    const url = `${window.location.origin}/quiz/r/${roundId}`;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: t('game.shareRoundTitle', { topic }), url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setShareStatus(t('game.linkCopied'));
+      }
+    } catch (error) {
+      console.error('Error sharing round:', error);
+    }
+  };
+
+  // 1-N pick a story, Enter moves on after a reveal; re-bound every render so it sees the current round
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (event.altKey || event.ctrlKey || event.metaKey || (target && TEXT_INPUTS.includes(target.tagName))) {
+        return;
+      }
+      const number = Number(event.key);
+      if (phase === 'question' && Number.isInteger(number) && number >= 1 && number <= stories.length) {
+        event.preventDefault();
+        handleGuess(number - 1);
+      } else if (phase === 'reveal' && event.key === 'Enter' && target?.tagName !== 'BUTTON' && target?.tagName !== 'A') {
+        event.preventDefault();
+        if (state.isFinalRound) {
+          dispatch({ type: 'end' });
+        } else {
+          handleNextGossip();
+        }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -105,96 +340,234 @@ export default function GossipGame() {
 
   const getScoreMessage = (score: number) => {
     if (score >= 5) {
-      return "🎭 👑 You are the ULTIMATE GOSSIP MASTER! 👑 🎭\nYour ability to spot real tea is legendary! 🫖✨";
+      return t('over.master');
     } else if (score >= 3) {
-      return "🌟 Impressive Gossip Detective! 🔍\nYou've got a natural talent for spotting the truth! 💫";
+      return t('over.detective');
     } else if (score >= 1) {
-      return "🎯 Not Bad, Gossip Apprentice! 📚\nKeep practicing your rumor radar! 🎪";
+      return t('over.apprentice');
     } else {
-      return "🎪 Welcome to the Gossip Circus! 🎪\nTime to sharpen those truth-spotting skills! 🎭";
+      return t('over.circus');
     }
   };
 
   const getTimeMessage = (timeLeft: number) => {
     if (timeLeft <= 10) {
-      return "⏰ Hurry up! Time's almost up! ⚡";
+      return t('game.timeHurry');
     } else if (timeLeft <= 30) {
-      return "⌛ Clock is ticking... Choose wisely! 🤔";
+      return t('game.timeTicking');
     }
-    return "🕒 Take your time to spot the truth! 🔍";
+    return t('game.timeRelaxed');
   };
 
-  if (gameOver) {
+  if (phase === 'over') {
     const message = getScoreMessage(score);
-    const accuracy = attempts > 0 ? Math.round((score / attempts) * 100) : 0;
-    
+
     return (
       <div className="max-w-4xl mx-auto p-8 bg-gradient-to-br from-purple-900/80 to-pink-900/80 backdrop-blur-lg rounded-2xl shadow-2xl border-2 border-purple-400/30">
         <div className="text-center text-white space-y-8">
-          <h2 className="text-5xl font-bold mb-8 bg-gradient-to-r from-purple-400 via-pink-400 to-purple-400 text-transparent bg-clip-text animate-gradient">Game Over!</h2>
+          <h2 ref={overHeadingRef} tabIndex={-1} className="text-5xl font-bold mb-8 outline-none bg-gradient-to-r from-purple-400 via-pink-400 to-purple-400 text-transparent bg-clip-text animate-gradient">{t('over.title')}</h2>
           
-          <div className="grid grid-cols-3 gap-6 mb-8">
-            <div className="bg-white/10 p-6 rounded-xl backdrop-blur-md transform hover:scale-105 transition-all">
-              <div className="text-4xl font-bold text-purple-300 mb-2">{score}</div>
-              <div className="text-purple-200">Correct Guesses</div>
-            </div>
-            <div className="bg-white/10 p-6 rounded-xl backdrop-blur-md transform hover:scale-105 transition-all">
-              <div className="text-4xl font-bold text-pink-300 mb-2">{attempts}</div>
-              <div className="text-pink-200">Total Attempts</div>
-            </div>
-            <div className="bg-white/10 p-6 rounded-xl backdrop-blur-md transform hover:scale-105 transition-all">
-              <div className="text-4xl font-bold text-purple-300 mb-2">{accuracy}%</div>
-              <div className="text-purple-200">Accuracy</div>
-            </div>
+          <div className="mb-8">
+            <GameSummary state={state} />
           </div>
 
           <div className="space-y-6">
             <p className="text-3xl font-medium whitespace-pre-line bg-gradient-to-r from-purple-200 to-pink-200 text-transparent bg-clip-text">{message}</p>
+            {daily && dailyInfo && (
+              <div className="space-y-3">
+                <p className="text-4xl tracking-widest">{getResultGrid(results, dailyInfo.rounds)}</p>
+                <button
+                  onClick={handleShare}
+                  className="px-8 py-3 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors font-medium"
+                >
+                  {t('over.share')}
+                </button>
+                {shareStatus && <p className="text-sm text-white/70">{shareStatus}</p>}
+              </div>
+            )}
+            <Leaderboard gameId={gameId} topic={topic} mode={mode} scopes={daily ? ['challenge'] : undefined} />
+            <Link href="/stats" className="block text-lg text-purple-200 hover:text-white underline underline-offset-4 transition-colors">
+              {t('over.stats')}
+            </Link>
+            {daily ? (
+              <p className="text-xl text-white/80">{t('daily.comeBack')}</p>
+            ) : (
+              <div className="mt-8 flex flex-col items-center gap-3">
+                <button
+                  onClick={handleStartGame}
+                  className="px-12 py-4 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-700 hover:to-pink-700 transition-all transform hover:scale-105 hover:shadow-lg font-bold text-xl shadow-xl"
+                >
+                  {t('over.playAgain')}
+                </button>
+                <button
+                  onClick={() => dispatch({ type: 'setup' })}
+                  className="text-purple-200 hover:text-white underline underline-offset-4 transition-colors"
+                >
+                  {t('over.changeMode')}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'setup' && daily) {
+    return (
+      <div className="max-w-2xl mx-auto p-6 bg-white/10 backdrop-blur-lg rounded-xl shadow-xl text-center text-white space-y-6">
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-purple-400 text-transparent bg-clip-text animate-gradient">{t('daily.title')}</h1>
+        {dailyInfo ? (
+          <>
+            <p className="text-white/70">{dailyInfo.day}</p>
+            <p className="text-2xl font-medium">{t('daily.topic', { topic: dailyInfo.topic })}</p>
+            <p className="text-white/80">
+              {t('daily.rules', { rounds: dailyInfo.rounds })}
+            </p>
             <button
               onClick={handleStartGame}
-              className="mt-8 px-12 py-4 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-700 hover:to-pink-700 transition-all transform hover:scale-105 hover:shadow-lg font-bold text-xl shadow-xl"
+              disabled={dailyInfo.played}
+              className="w-full px-6 py-4 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-700 hover:to-pink-700 transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 font-medium text-lg shadow-xl"
             >
-              Play Again 🎭
+              {dailyInfo.played ? t('daily.played') : t('daily.start')}
             </button>
-          </div>
-        </div>
+          </>
+        ) : (
+          <p className="text-white/70">{t('daily.loading')}</p>
+        )}
       </div>
     );
   }
 
-  if (!gameStarted) {
+  if (phase === 'setup') {
     return (
       <div className="max-w-2xl mx-auto p-6 bg-white/10 backdrop-blur-lg rounded-xl shadow-xl">
-        <h1 className="text-4xl font-bold text-center mb-6 bg-gradient-to-r from-purple-400 via-pink-400 to-purple-400 text-transparent bg-clip-text animate-gradient">Gossip Game</h1>
+        <h1 className="text-4xl font-bold text-center mb-6 bg-gradient-to-r from-purple-400 via-pink-400 to-purple-400 text-transparent bg-clip-text animate-gradient">{t('setup.title')}</h1>
         <div className="space-y-4">
           <input
             type="text"
             value={topic}
             onChange={(e) => setTopic(e.target.value)}
-            placeholder="What's the tea about...?"
+            placeholder={t('setup.placeholder')}
             className="w-full p-4 rounded-xl bg-white/20 text-white placeholder-white/50 backdrop-blur-sm border-2 border-white/10 focus:border-purple-400/50 outline-none transition-colors"
           />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {MODE_OPTIONS.map(option => (
+              <button
+                key={option}
+                type="button"
+                aria-pressed={mode === option}
+                onClick={() => dispatch({ type: 'set-mode', mode: option })}
+                className={`px-3 py-2 rounded-xl text-sm font-medium transition-colors border-2 ${
+                  mode === option
+                    ? 'bg-pink-500/40 border-pink-300/60 text-white'
+                    : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+                }`}
+              >
+                {t(`mode.${option}.label`)}
+              </button>
+            ))}
+          </div>
+          {mode === 'fixed' && (
+            <div className="flex items-center justify-center gap-2 text-sm text-white/80">
+              <span>{t('setup.rounds')}</span>
+              {FIXED_ROUND_OPTIONS.map(rounds => (
+                <button
+                  key={rounds}
+                  type="button"
+                  aria-pressed={fixedRounds === rounds}
+                  onClick={() => setFixedRounds(rounds)}
+                  className={`px-4 py-1 rounded-full transition-colors border ${
+                    fixedRounds === rounds
+                      ? 'bg-pink-500/40 border-pink-300/60 text-white'
+                      : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+                  }`}
+                >
+                  {rounds}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {DIFFICULTY_OPTIONS.map(option => (
+              <button
+                key={option}
+                type="button"
+                aria-pressed={difficulty === option}
+                onClick={() => setDifficulty(option)}
+                className={`px-3 py-2 rounded-xl text-sm font-medium transition-colors border-2 ${
+                  difficulty === option
+                    ? 'bg-purple-500/40 border-purple-300/60 text-white'
+                    : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+                }`}
+              >
+                {t(`difficulty.${option}`)}
+              </button>
+            ))}
+          </div>
+          {availableSources.some(source => source.id === 'reddit' || source.id === 'subreddit') && (
+            <input
+              type="text"
+              value={subredditInput}
+              onChange={(e) => setSubredditInput(e.target.value)}
+              placeholder={t('setup.subreddits')}
+              className="w-full p-3 rounded-xl bg-white/20 text-white placeholder-white/50 text-sm border-2 border-white/10 focus:border-purple-400/50 outline-none transition-colors"
+            />
+          )}
+          {availableSources.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {availableSources.map(source => (
+                <button
+                  key={source.id}
+                  type="button"
+                  aria-pressed={selectedSources.includes(source.id)}
+                  onClick={() => toggleSource(source.id)}
+                  className={`px-4 py-2 rounded-full text-sm transition-colors border ${
+                    selectedSources.includes(source.id)
+                      ? 'bg-purple-500/40 border-purple-300/60 text-white'
+                      : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+                  }`}
+                >
+                  {source.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-center">
+            <button
+              type="button"
+              aria-pressed={approvedOnly}
+              onClick={() => setApprovedOnly(prev => !prev)}
+              className={`px-4 py-2 rounded-full text-sm transition-colors border ${
+                approvedOnly
+                  ? 'bg-green-500/30 border-green-300/60 text-white'
+                  : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+              }`}
+            >
+              {t('setup.approvedOnly')}
+            </button>
+          </div>
           <button
             onClick={handleStartGame}
             disabled={!topic}
             className="w-full px-6 py-4 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-700 hover:to-pink-700 transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 font-medium text-lg shadow-xl"
           >
-            Start 1-Minute Tea Time! ☕️
+            {t(`mode.${mode}.start`)}
           </button>
           <div className="text-center pt-6 space-y-3">
-            <p className="text-white/90 text-lg font-medium mb-2">Instructions:</p>
+            <p className="text-white/90 text-lg font-medium mb-2">{t('setup.instructions')}</p>
             <div className="inline-flex items-center gap-2 text-white/90 text-lg font-medium bg-white/5 px-4 py-2 rounded-full backdrop-blur-sm">
               <span className="text-xl">👥</span>
-              <span>Enter any celebrity or trending topic</span>
+              <span>{t('setup.enterTopic')}</span>
             </div>
             <div className="flex flex-col items-center gap-2">
               <div className="inline-flex items-center gap-2 text-white/80 bg-white/5 px-4 py-2 rounded-full backdrop-blur-sm">
                 <span className="text-xl">🎭</span>
-                <span>One real story, one AI-made story</span>
+                <span>{t('setup.oneReal')}</span>
               </div>
               <div className="inline-flex items-center gap-2 text-white/80 bg-white/5 px-4 py-2 rounded-full backdrop-blur-sm">
                 <span className="text-xl">⏱️</span>
-                <span>Spot as many gossips as you can in 60 seconds!</span>
+                <span>{t(`mode.${mode}.description`, { seconds: MODE_SECONDS[mode] ?? 0 })}</span>
               </div>
             </div>
           </div>
@@ -203,30 +576,102 @@ export default function GossipGame() {
     );
   }
 
+  const { timeLeft, roundTimeLeft, roundLimit } = state;
+
   return (
     <div className="max-w-2xl mx-auto p-6 bg-white/10 backdrop-blur-lg rounded-lg shadow-xl">
       <div className="mb-6 flex justify-between items-center text-white">
-        <div>Score: {score}</div>
-        <div>{getTimeMessage(timeLeft)} ({formatTime(timeLeft)})</div>
+        <div>
+          {t('game.score', { points: state.points })}
+          {roundLimit !== null && (
+            <span className="text-white/60"> · {t('game.round', { round: Math.min(results.length + (revealed ? 0 : 1), roundLimit), total: roundLimit })}</span>
+          )}
+          {endsOnMiss(mode) && <span className="text-white/60"> · {t('game.streak', { streak: state.streak })}</span>}
+        </div>
+        {/* The clocks themselves stay quiet; only the warnings are announced */}
+        {mode === 'timed' && timeLeft !== null && (
+          <div>
+            <span aria-live="polite">{getTimeMessage(timeLeft)}</span> <span role="timer">({formatTime(timeLeft)})</span>
+          </div>
+        )}
+        {mode === 'sudden-death' && phase === 'question' && roundTimeLeft !== null && (
+          <div role="timer" className={roundTimeLeft <= ROUND_TIMER_WARNING_SECONDS ? 'text-red-300 font-bold' : undefined}>
+            {t('game.roundTimer', { seconds: roundTimeLeft })}
+          </div>
+        )}
+        <p aria-live="assertive" className="sr-only">
+          {mode === 'sudden-death' && phase === 'question' && roundTimeLeft !== null && roundTimeLeft <= ROUND_TIMER_WARNING_SECONDS
+            ? t('game.roundTimerLow', { seconds: ROUND_TIMER_WARNING_SECONDS })
+            : ''}
+        </p>
+        {mode === 'fixed' && <div className="text-white/70">{t('game.noClock')}</div>}
       </div>
       
       {loading ? (
-        <div className="text-center py-8 text-white">Loading gossip...</div>
+        <div className="text-center py-8 text-white space-y-3">
+          <p role="status" className="text-lg">{t('game.loading')}</p>
+          <ul className="inline-block text-left space-y-1 text-white/80">
+            <li>{progress.source ? t('game.sourceFound', { source: progress.source.label }) : t('game.sourceSearching')}</li>
+            <li>{progress.realReady ? t('game.realReady') : t('game.realWriting')}</li>
+            <li>
+              {progress.decoys && progress.decoys.ready === progress.decoys.total ? '✅' : '⏳'} {t('game.decoys')}
+              {progress.decoys && ` (${progress.decoys.ready}/${progress.decoys.total})`}
+            </li>
+          </ul>
+          {mode === 'timed' && <p className="text-sm text-white/60">{t('game.timerPaused')}</p>}
+          {mode === 'sudden-death' && <p className="text-sm text-white/60">{t('game.countdownPaused')}</p>}
+        </div>
       ) : stories.length === 0 ? (
         <div className="text-center py-8 space-y-4 animate-fade-in">
-          <p className="text-white/90 text-xl font-medium">Time to test your gossip radar! 🔍</p>
-          <p className="text-white/80 text-lg">One of these stories is real, the other is AI-generated.<br/>Can you spot which is which? You have 60 seconds!</p>
+          <p className="text-white/90 text-xl font-medium">{t('game.intro')}</p>
+          <p className="text-white/80 text-lg">{t('game.introRules')}<br/>{t('game.introQuestion')}</p>
+          {gameId && (
+            <button
+              onClick={handleNextGossip}
+              className="px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              {t('game.retry')}
+            </button>
+          )}
         </div>
       ) : (
         <div className="space-y-6">
-          <h2 className="text-xl font-semibold mb-4 text-white">Topic: {topic}</h2>
+          <h2 className="text-xl font-semibold mb-4 text-white">{t('game.topic', { topic })}</h2>
+          {(roundSource || roundDifficulty) && (
+            <p className="-mt-2 text-sm text-white/60">
+              {roundSource && <span>{t('game.source', { source: roundSource.label })}</span>}
+              {roundSource && roundDifficulty && <span> · </span>}
+              {roundDifficulty && <span>{t('game.difficulty', { difficulty: t(`difficulty.${roundDifficulty}`) })}</span>}
+            </p>
+          )}
           
-          <div className="space-y-4">
+          {phase === 'question' && gameId && (
+            <div className="flex items-center justify-center gap-2 text-sm text-white/80">
+              <span>{t('game.bet')}</span>
+              {[null, ...WAGER_OPTIONS].map(wager => (
+                <button
+                  key={wager ?? 'none'}
+                  type="button"
+                  disabled={selectedIndex !== null}
+                  aria-pressed={state.wager === wager}
+                  onClick={() => dispatch({ type: 'wager', wager })}
+                  className={`px-3 py-1 rounded-full transition-colors border disabled:opacity-50 ${
+                    state.wager === wager
+                      ? 'bg-yellow-500/30 border-yellow-300/60 text-white'
+                      : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+                  }`}
+                >
+                  {wager === null ? t('game.noBet') : `${wager}×`}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div role="group" aria-label={t('game.stories')} className="space-y-4">
             {stories.map((story, index) => (
               <div
                 key={index}
-                onClick={() => handleGuess(index)}
-                className={`p-6 rounded-xl backdrop-blur-md transition-all transform hover:scale-[1.02] cursor-pointer ${
+                className={`rounded-xl backdrop-blur-md transition-all transform hover:scale-[1.02] ${
                   revealed
                     ? index === correctIndex
                       ? 'bg-gradient-to-r from-green-500/20 to-emerald-500/20 border-2 border-green-400/30'
@@ -236,38 +681,78 @@ export default function GossipGame() {
                     : 'bg-white/10 hover:bg-white/20 border-2 border-white/10'
                 }`}
               >
-                <p className="text-white text-lg leading-relaxed">{story.content}</p>
-                {revealed && index === correctIndex && story.redditUrl && (
-                  <div className="mt-4 flex items-center justify-between">
-                    <span className="text-green-300 font-medium">✨ This was the real gossip!</span>
+                <button
+                  ref={index === 0 ? firstStoryRef : undefined}
+                  type="button"
+                  onClick={() => handleGuess(index)}
+                  aria-disabled={phase !== 'question' || selectedIndex !== null}
+                  aria-pressed={selectedIndex === index}
+                  aria-keyshortcuts={String(index + 1)}
+                  className="w-full p-6 flex items-start gap-4 text-left rounded-xl cursor-pointer aria-disabled:cursor-default outline-none focus-visible:ring-2 focus-visible:ring-purple-300"
+                >
+                  <span aria-hidden="true" className="shrink-0 w-7 h-7 flex items-center justify-center rounded-full bg-white/10 text-sm text-white/70">{index + 1}</span>
+                  <span className="sr-only">{t('game.storyNumber', { number: index + 1 })}: </span>
+                  <span className="text-white text-lg leading-relaxed">{story.content}</span>
+                </button>
+                {revealed && index === correctIndex && story.sourceUrl && (
+                  <div className="px-6 pb-4 flex items-center justify-between">
+                    <span className="text-green-300 font-medium">{t('game.real')}</span>
                     <a
-                      href={story.redditUrl}
+                      href={story.sourceUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-blue-300 hover:text-blue-400 flex items-center gap-2 transition-colors"
                     >
-                      <span>View on Reddit</span>
+                      <span>{t('game.viewOriginal')}</span>
                       <span className="text-xl">→</span>
                     </a>
                   </div>
                 )}
                 {revealed && !story.isReal && (
-                  <div className="mt-4">
-                    <span className="text-red-300 font-medium">🎭 This was the AI-generated story!</span>
+                  <div className="px-6 pb-4">
+                    <span className="text-red-300 font-medium">{t('game.fake')}</span>
                   </div>
                 )}
+                {revealed && story.explanation && (
+                  <p className="mx-6 mb-6 text-sm text-white/80 bg-black/20 rounded-lg px-3 py-2">
+                    {story.isReal ? t('game.whatWasReal') : t('game.whatGaveItAway')}
+                    {story.explanation}
+                  </p>
+                )}
               </div>
             ))}
           </div>
           
+          <p className="text-center text-sm text-white/60">
+            {revealed ? t('game.keyboardNextHint') : t('game.keyboardHint', { count: stories.length })}
+          </p>
+          <p role="status" className="sr-only">
+            {revealed && correctIndex !== null
+              ? t(selectedIndex === correctIndex ? 'game.announceCorrect' : 'game.announceWrong', { number: correctIndex + 1 })
+              : ''}
+          </p>
+          {revealed && state.scoring.length > 0 && (
+            <RoundScore scoring={state.scoring[state.scoring.length - 1]} />
+          )}
           {revealed && (
             <button
-              onClick={handleNextGossip}
+              ref={nextButtonRef}
+              aria-keyshortcuts="Enter"
+              onClick={state.isFinalRound ? () => dispatch({ type: 'end' }) : handleNextGossip}
               className="w-full mt-4 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
             >
-              Next Gossip!
+              {state.isFinalRound ? t('game.seeResults') : t('game.next')}
             </button>
           )}
+          {revealed && !daily && (
+            <div className="text-center">
+              <button onClick={handleShareRound} className="text-purple-200 hover:text-white underline underline-offset-4 transition-colors">
+                {t('game.shareRound')}
+              </button>
+              {shareStatus && <span className="ml-2 text-sm text-white/70">{shareStatus}</span>}
+            </div>
+          )}
+          {revealed && roundId && <ReportRound key={roundId} roundId={roundId} />}
         </div>
       )}
     </div>
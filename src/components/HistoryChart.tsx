@@ -0,0 +1,39 @@
+'use client';
+
+import { HistoryPoint } from '@/types/profile';
+import { useI18n } from './LocaleProvider';
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 24;
+const MAX_POINTS = 30;
+
+// Accuracy per game as a line, most recent games on the right
+export default function HistoryChart({ history }: { history: HistoryPoint[] }) {
+  const { t } = useI18n();
+  const points = history.slice(-MAX_POINTS);
+  if (points.length < 2) {
+    return <p className="text-center text-white/60">{t('stats.historyEmpty')}</p>;
+  }
+
+  const x = (index: number) => PADDING + (index * (WIDTH - PADDING * 2)) / (points.length - 1);
+  const y = (accuracy: number) => HEIGHT - PADDING - (accuracy / 100) * (HEIGHT - PADDING * 2);
+  const line = points.map((point, index) => `${x(index)},${y(point.accuracy)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t('stats.historyLabel')}>
+      {[0, 50, 100].map(level => (
+        <g key={level}>
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={y(level)} y2={y(level)} stroke="rgba(255,255,255,0.15)" strokeDasharray="4 4" />
+          <text x={0} y={y(level) + 4} fill="rgba(255,255,255,0.5)" fontSize="10">{level}%</text>
+        </g>
+      ))}
+      <polyline points={line} fill="none" stroke="#f472b6" strokeWidth="3" strokeLinejoin="round" />
+      {points.map((point, index) => (
+        <circle key={point.gameId} cx={x(index)} cy={y(point.accuracy)} r="4" fill="#c084fc">
+          <title>{`${new Date(point.playedAt).toLocaleDateString()} · ${point.topic}: ${point.accuracy}%, ${t('score.points', { points: point.points })}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
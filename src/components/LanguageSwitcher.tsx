@@ -0,0 +1,27 @@
+'use client';
+
+import { Locale } from '@/types/i18n';
+import { LOCALES } from '@/lib/i18n/locales';
+import { useI18n } from './LocaleProvider';
+
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="fixed top-4 right-4 z-50 flex items-center gap-2 text-sm text-white/80">
+      <span className="sr-only">{t('language.label')}</span>
+      <span aria-hidden="true">🌐</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="px-3 py-1 rounded-full bg-black/30 border border-white/20 text-white backdrop-blur-sm outline-none focus:border-purple-400/60"
+      >
+        {LOCALES.map(option => (
+          <option key={option.locale} value={option.locale} className="text-black">
+            {option.native}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { GameMode } from '@/types/gossip';
+import { LeaderboardEntry, LeaderboardScope, LeaderboardSubmission } from '@/types/leaderboard';
+import { useI18n } from './LocaleProvider';
+
+const NICKNAME_KEY = 'gossaip:nickname';
+
+// Labelled by the `leaderboard.<scope>` messages
+const SCOPE_OPTIONS: LeaderboardScope[] = ['all', 'daily', 'topic', 'challenge'];
+
+export default function Leaderboard({ gameId, topic, mode = 'timed', scopes = ['all', 'daily', 'topic'] }: {
+  gameId: string | null;
+  topic: string;
+  mode?: GameMode;
+  scopes?: LeaderboardScope[];
+}) {
+  const { t } = useI18n();
+  const [nickname, setNickname] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submission, setSubmission] = useState<LeaderboardSubmission | null>(null);
+  const [scope, setScope] = useState<LeaderboardScope>(scopes[0]);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+
+  useEffect(() => {
+    setNickname(localStorage.getItem(NICKNAME_KEY) || '');
+  }, []);
+
+  // A new game gets a fresh submission form
+  useEffect(() => {
+    setSubmission(null);
+  }, [gameId]);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ scope, mode, limit: '10' });
+    if (scope === 'topic') {
+      params.set('topic', topic);
+    }
+    fetch(`/api/leaderboard?${params}`)
+      .then(response => (response.ok ? response.json() : { entries: [] }))
+      .then((data: { entries: LeaderboardEntry[] }) => setEntries(data.entries))
+      .catch(error => console.error('Error fetching leaderboard:', error));
+  }, [scope, topic, mode, submission]);
+
+  const handleSubmit = async () => {
+    if (!gameId || !nickname.trim()) {
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/leaderboard', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ gameId, nickname }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('leaderboard.submitFailed'));
+      }
+      localStorage.setItem(NICKNAME_KEY, nickname.trim());
+      setSubmission(data);
+    } catch (error) {
+      console.error('Error submitting score:', error);
+      alert(error instanceof Error ? error.message : t('leaderboard.submitFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const rank = submission?.ranks[scope] ?? 0;
+  const scopeOptions = SCOPE_OPTIONS.filter(option => scopes.includes(option));
+
+  return (
+    <div className="bg-white/10 p-6 rounded-xl backdrop-blur-md space-y-4 text-left">
+      {submission ? (
+        <p className="text-center text-lg text-purple-100">
+          {submission.ranks.challenge
+            ? t('leaderboard.challengeRank', { rank: submission.ranks.challenge })
+            : t('leaderboard.ranks', {
+              all: submission.ranks.all,
+              daily: submission.ranks.daily,
+              topicRank: submission.ranks.topic,
+              topic,
+            })}
+        </p>
+      ) : gameId && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={nickname}
+            maxLength={20}
+            onChange={(e) => setNickname(e.target.value)}
+            placeholder={t('leaderboard.alias')}
+            className="flex-1 p-3 rounded-xl bg-white/20 text-white placeholder-white/50 border-2 border-white/10 focus:border-purple-400/50 outline-none transition-colors"
+          />
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || !nickname.trim()}
+            className="px-6 py-3 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? t('leaderboard.saving') : t('leaderboard.submit')}
+          </button>
+        </div>
+      )}
+
+      {scopeOptions.length > 1 && (
+        <div className="grid grid-cols-3 gap-2">
+          {scopeOptions.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setScope(option)}
+              className={`px-3 py-2 rounded-xl text-sm font-medium transition-colors border-2 ${
+                scope === option
+                  ? 'bg-purple-500/40 border-purple-300/60 text-white'
+                  : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+              }`}
+            >
+              {t(`leaderboard.${option}`)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-center text-white/60">{t('leaderboard.empty')}</p>
+      ) : (
+        <ol className="space-y-1">
+          {entries.map((entry, index) => (
+            <li
+              key={entry.id}
+              className={`flex justify-between px-3 py-2 rounded-lg ${
+                entry.id === submission?.entry.id ? 'bg-purple-500/30 text-white' : 'text-white/80'
+              }`}
+            >
+              <span>
+                {index + 1}. {entry.nickname}
+                {scope === 'all' || scope === 'daily' ? <span className="text-white/50"> · {entry.topic}</span> : null}
+              </span>
+              <span>{t('leaderboard.entry', { points: entry.points ?? entry.score, accuracy: entry.accuracy })}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {submission && rank > entries.length && (
+        <p className="text-center text-sm text-white/60">{t('leaderboard.yourRank', { rank })}</p>
+      )}
+    </div>
+  );
+}
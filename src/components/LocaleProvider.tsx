@@ -0,0 +1,50 @@
+'use client';
+
+import { ReactNode, createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Locale } from '@/types/i18n';
+import { DEFAULT_LOCALE, matchLocale, parseLocale } from '@/lib/i18n/locales';
+import { MessageKey, MessageParams, translate } from '@/lib/i18n/messages';
+
+const LOCALE_KEY = 'gossaip:locale';
+
+interface I18nContext {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+const LocaleContext = createContext<I18nContext>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+});
+
+export function useI18n() {
+  return useContext(LocaleContext);
+}
+
+// Pages render in English on the server; the saved choice, or else the browser's languages, takes over once mounted
+export default function LocaleProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(parseLocale(localStorage.getItem(LOCALE_KEY)) ?? matchLocale(navigator.languages ?? [navigator.language]));
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    localStorage.setItem(LOCALE_KEY, next);
+    setLocaleState(next);
+  }, []);
+
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(locale, key, params), [locale]);
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
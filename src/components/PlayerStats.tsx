@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { PlayerProfile, StatLine } from '@/types/profile';
+import { DifficultyLevel } from '@/types/gossip';
+import { computeStats } from '@/lib/profile/stats';
+import { getSyncCode, isSyncEnabled, loadProfile, restoreProfile, setSyncEnabled, syncProfile } from '@/lib/profile/local';
+import HistoryChart from './HistoryChart';
+import { useI18n } from './LocaleProvider';
+
+const MAX_LINES = 8;
+
+function StatList({ title, lines, empty, label = key => key }: {
+  title: string;
+  lines: StatLine[];
+  empty: string;
+  label?: (key: string) => string;
+}) {
+  return (
+    <div className="bg-white/10 p-6 rounded-xl backdrop-blur-md space-y-3">
+      <h2 className="text-xl font-semibold text-white">{title}</h2>
+      {lines.length === 0 ? (
+        <p className="text-white/60">{empty}</p>
+      ) : (
+        <ul className="space-y-2">
+          {lines.slice(0, MAX_LINES).map(line => (
+            <li key={line.key} className="space-y-1">
+              <div className="flex justify-between text-white/90">
+                <span className="capitalize">{label(line.key)}</span>
+                <span>{line.accuracy}% · {line.correct}/{line.attempts}</span>
+              </div>
+              <div className="h-2 rounded-full bg-white/10">
+                <div className="h-2 rounded-full bg-gradient-to-r from-purple-400 to-pink-400" style={{ width: `${line.accuracy}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function PlayerStats() {
+  const { t } = useI18n();
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncOn, setSyncOn] = useState(false);
+  const [restoreId, setRestoreId] = useState('');
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    setProfile(loadProfile());
+    setSyncOn(isSyncEnabled());
+    // Pick up games played on other devices
+    if (isSyncEnabled()) {
+      syncProfile()
+        .then(setProfile)
+        .catch(error => console.error('Error syncing profile:', error));
+    }
+  }, []);
+
+  const runSync = async (action: () => Promise<PlayerProfile>, done: string) => {
+    setSyncing(true);
+    setStatus('');
+    try {
+      setProfile(await action());
+      setSyncOn(isSyncEnabled());
+      setStatus(done);
+    } catch (error) {
+      console.error('Error syncing profile:', error);
+      setStatus(error instanceof Error ? error.message : t('stats.sync.failed'));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleToggleSync = () => {
+    if (syncOn) {
+      setSyncEnabled(false);
+      setSyncOn(false);
+      setStatus(t('stats.sync.off'));
+      return;
+    }
+    setSyncEnabled(true);
+    runSync(syncProfile, t('stats.sync.done'));
+  };
+
+  const handleRestore = () => {
+    if (restoreId.trim()) {
+      runSync(() => restoreProfile(restoreId), t('stats.sync.restored'));
+    }
+  };
+
+  if (!profile) {
+    return <div className="text-center text-white">{t('stats.loading')}</div>;
+  }
+
+  const stats = computeStats(profile);
+  const syncCode = getSyncCode(profile);
+  const cards = [
+    { value: stats.games, label: t('stats.games') },
+    { value: `${stats.accuracy}%`, label: t('summary.accuracy') },
+    { value: `🔥 ${stats.bestStreak}`, label: t('summary.bestStreak') },
+    { value: stats.averageAnswerSeconds === null ? '–' : `${stats.averageAnswerSeconds}s`, label: t('summary.average') },
+    { value: stats.totalPoints, label: t('stats.totalPoints') },
+    { value: stats.bestPoints, label: t('stats.bestGame') },
+  ];
+
+  return (
+    <div className="max-w-4xl mx-auto p-8 bg-gradient-to-br from-purple-900/80 to-pink-900/80 backdrop-blur-lg rounded-2xl shadow-2xl border-2 border-purple-400/30 text-white space-y-8">
+      <h1 className="text-5xl font-bold text-center bg-gradient-to-r from-purple-400 via-pink-400 to-purple-400 text-transparent bg-clip-text animate-gradient">{t('stats.title')}</h1>
+
+      {stats.games === 0 ? (
+        <p className="text-center text-xl text-white/80">{t('stats.empty')}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-center">
+            {cards.map(card => (
+              <div key={card.label} className="bg-white/10 p-4 rounded-xl backdrop-blur-md">
+                <div className="text-3xl font-bold text-purple-300 mb-1">{card.value}</div>
+                <div className="text-purple-200">{card.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white/10 p-6 rounded-xl backdrop-blur-md space-y-3">
+            <h2 className="text-xl font-semibold">{t('stats.history')}</h2>
+            <HistoryChart history={stats.history} />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <StatList title={t('stats.byTopic')} lines={stats.byTopic} empty={t('stats.noGuesses')} />
+            <StatList
+              title={t('stats.byDifficulty')}
+              lines={stats.byDifficulty}
+              empty={t('stats.noGuesses')}
+              label={key => t(`difficulty.${key as DifficultyLevel}`)}
+            />
+            <StatList title={t('stats.bySubreddit')} lines={stats.bySubreddit} empty={t('stats.noReddit')} />
+          </div>
+        </>
+      )}
+
+      <div className="bg-white/10 p-6 rounded-xl backdrop-blur-md space-y-4">
+        <h2 className="text-xl font-semibold">{t('stats.sync.title')}</h2>
+        <p className="text-white/70 text-sm">
+          {t('stats.sync.intro')}
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={handleToggleSync}
+            disabled={syncing}
+            className="px-6 py-3 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            {syncOn ? t('stats.sync.stop') : t('stats.sync.start')}
+          </button>
+          {syncOn && syncCode && <code className="px-3 py-2 rounded-lg bg-black/30 text-sm select-all break-all">{syncCode}</code>}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={restoreId}
+            onChange={(e) => setRestoreId(e.target.value)}
+            placeholder={t('stats.sync.placeholder')}
+            className="flex-1 p-3 rounded-xl bg-white/20 text-white placeholder-white/50 border-2 border-white/10 focus:border-purple-400/50 outline-none transition-colors"
+          />
+          <button
+            onClick={handleRestore}
+            disabled={syncing || !restoreId.trim()}
+            className="px-6 py-3 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors disabled:opacity-50"
+          >
+            {t('stats.sync.restore')}
+          </button>
+        </div>
+        {status && <p className="text-sm text-white/70">{status}</p>}
+      </div>
+
+      <div className="text-center">
+        <Link href="/quiz" className="text-lg text-purple-200 hover:text-white underline underline-offset-4 transition-colors">
+          {t('stats.playAgain')}
+        </Link>
+      </div>
+    </div>
+  );
+}
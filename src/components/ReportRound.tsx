@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { ReportReason } from '@/types/curation';
+import { REPORT_REASONS } from '@/lib/curation/options';
+import { useI18n } from './LocaleProvider';
+
+// "Report this round" under a revealed round; reports go to the curators' review queue
+export default function ReportRound({ roundId }: { roundId: string }) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>(REPORT_REASONS[0]);
+  const [note, setNote] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const response = await fetch(`/api/rounds/${roundId}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason, note }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('report.failed'));
+      }
+      setSent(true);
+      setOpen(false);
+    } catch (error) {
+      console.error('Error reporting round:', error);
+      alert(error instanceof Error ? error.message : t('report.failed'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sent) {
+    return <p role="status" className="text-center text-sm text-white/70">{t('report.thanks')}</p>;
+  }
+
+  if (!open) {
+    return (
+      <div className="text-center">
+        <button onClick={() => setOpen(true)} className="text-sm text-white/60 hover:text-white underline underline-offset-4 transition-colors">
+          {t('report.open')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-black/20 rounded-xl p-4 space-y-3 text-white">
+      <label className="block space-y-2">
+        <span className="text-sm font-medium">{t('report.label')}</span>
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value as ReportReason)}
+          className="w-full p-2 rounded-lg bg-white/20 border-2 border-white/10 focus:border-purple-400/50 outline-none"
+        >
+          {REPORT_REASONS.map(option => (
+            <option key={option} value={option} className="text-black">{t(`report.reason.${option}`)}</option>
+          ))}
+        </select>
+      </label>
+      <textarea
+        value={note}
+        maxLength={500}
+        rows={2}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder={t('report.note')}
+        aria-label={t('report.note')}
+        className="w-full p-2 rounded-lg bg-white/20 text-sm placeholder-white/50 border-2 border-white/10 focus:border-purple-400/50 outline-none"
+      />
+      <div className="flex gap-2 justify-end">
+        <button onClick={() => setOpen(false)} className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors">
+          {t('report.cancel')}
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={sending}
+          className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          {t('report.send')}
+        </button>
+      </div>
+    </div>
+  );
+}
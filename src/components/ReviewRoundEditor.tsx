@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ReviewRound, ReviewUpdate } from '@/types/curation';
+
+type StoryDraft = { content: string; explanation: string };
+
+function toDrafts(round: ReviewRound): StoryDraft[] {
+  return round.stories.map(story => ({ content: story.content, explanation: story.explanation ?? '' }));
+}
+
+function formatDate(time: number) {
+  return new Date(time).toLocaleString();
+}
+
+// One round under review: fix the wording, then approve it into the bank or flag it
+export default function ReviewRoundEditor({ roundId, onReviewed }: { roundId: string; onReviewed: () => void }) {
+  const [round, setRound] = useState<ReviewRound | null>(null);
+  const [topic, setTopic] = useState('');
+  const [stories, setStories] = useState<StoryDraft[]>([]);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const load = (data: ReviewRound) => {
+    setRound(data);
+    setTopic(data.topic);
+    setStories(toDrafts(data));
+    setNote(data.note ?? '');
+  };
+
+  useEffect(() => {
+    setRound(null);
+    setStatus('');
+    fetch(`/api/admin/rounds/${roundId}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch round');
+        }
+        load(data);
+      })
+      .catch(error => {
+        console.error('Error fetching round:', error);
+        setStatus(error instanceof Error ? error.message : 'Failed to fetch round');
+      });
+  }, [roundId]);
+
+  const save = async (update: ReviewUpdate, done: string) => {
+    setSaving(true);
+    setStatus('');
+    try {
+      const response = await fetch(`/api/admin/rounds/${roundId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ topic, stories, note, ...update }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save round');
+      }
+      load(data);
+      setStatus(done);
+      onReviewed();
+    } catch (error) {
+      console.error('Error saving round:', error);
+      setStatus(error instanceof Error ? error.message : 'Failed to save round');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateStory = (index: number, field: keyof StoryDraft, value: string) => {
+    setStories(prev => prev.map((story, i) => (i === index ? { ...story, [field]: value } : story)));
+  };
+
+  if (!round) {
+    return <p className="text-white/70">{status || 'Loading round...'}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-white/60">
+        <span>
+          {round.source.label}{round.source.community ? ` · ${round.source.community}` : ''} · <span className="capitalize">{round.difficulty}</span> · {formatDate(round.createdAt)}
+        </span>
+        <span className="capitalize px-3 py-1 rounded-full bg-white/10 text-white">{round.status}</span>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-sm text-white/70">Topic</span>
+        <input
+          type="text"
+          value={topic}
+          onChange={(e) => setTopic(e.target.value)}
+          className="w-full p-3 rounded-xl bg-white/20 text-white border-2 border-white/10 focus:border-purple-400/50 outline-none"
+        />
+      </label>
+
+      {stories.map((story, index) => {
+        const original = round.stories[index];
+        return (
+          <div
+            key={index}
+            className={`p-4 rounded-xl space-y-2 border-2 ${original.isReal ? 'border-green-400/40 bg-green-500/10' : 'border-white/10 bg-white/5'}`}
+          >
+            <div className="flex justify-between text-sm">
+              <span className={original.isReal ? 'text-green-300 font-medium' : 'text-white/70'}>
+                Story {index + 1} · {original.isReal ? 'Real' : 'Decoy'}
+              </span>
+              {original.sourceUrl && (
+                <a href={original.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-300 hover:text-blue-400">
+                  Source post →
+                </a>
+              )}
+            </div>
+            <textarea
+              value={story.content}
+              rows={3}
+              onChange={(e) => updateStory(index, 'content', e.target.value)}
+              aria-label={`Story ${index + 1}`}
+              className="w-full p-2 rounded-lg bg-black/20 text-white border border-white/10 focus:border-purple-400/50 outline-none"
+            />
+            <textarea
+              value={story.explanation}
+              rows={2}
+              onChange={(e) => updateStory(index, 'explanation', e.target.value)}
+              placeholder="Explanation shown after the reveal"
+              aria-label={`Story ${index + 1} explanation`}
+              className="w-full p-2 rounded-lg bg-black/20 text-sm text-white/80 placeholder-white/40 border border-white/10 focus:border-purple-400/50 outline-none"
+            />
+          </div>
+        );
+      })}
+
+      {round.reports.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold text-white">Player reports</h3>
+          <ul className="space-y-1 text-sm">
+            {round.reports.map(report => (
+              <li key={report.id} className={report.resolvedAt ? 'text-white/40' : 'text-white/80'}>
+                🚩 {report.reason}{report.note ? `: ${report.note}` : ''} · {formatDate(report.createdAt)}
+                {report.resolvedAt ? ' · resolved' : ''}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <textarea
+        value={note}
+        rows={2}
+        maxLength={500}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Curator note (why it was flagged, what was fixed...)"
+        aria-label="Curator note"
+        className="w-full p-2 rounded-lg bg-white/10 text-sm text-white placeholder-white/40 border border-white/10 focus:border-purple-400/50 outline-none"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => save({}, 'Edits saved')}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors disabled:opacity-50"
+        >
+          Save edits
+        </button>
+        <button
+          onClick={() => save({ status: 'approved' }, 'Approved into the round bank ✅')}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50"
+        >
+          Approve ✅
+        </button>
+        <button
+          onClick={() => save({ status: 'flagged' }, 'Flagged and kept out of the round bank 🚩')}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          Flag 🚩
+        </button>
+      </div>
+      {status && <p role="status" className="text-sm text-white/70">{status}</p>}
+      {round.reviewedAt && <p className="text-xs text-white/50">Last reviewed {formatDate(round.reviewedAt)}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { RoomJoinResult, RoomState } from '@/types/room';
+import { useI18n } from './LocaleProvider';
+
+const SESSION_KEY = 'gossaip:room';
+const NICKNAME_KEY = 'gossaip:nickname';
+
+interface RoomSession {
+  code: string;
+  playerId: string;
+  token: string;
+}
+
+export default function RoomGame() {
+  const searchParams = useSearchParams();
+  const { locale, t } = useI18n();
+  const [nickname, setNickname] = useState('');
+  const [topic, setTopic] = useState(searchParams.get('topic') || '');
+  const [code, setCode] = useState(searchParams.get('code') || '');
+  const [session, setSession] = useState<RoomSession | null>(null);
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [timeLeft, setTimeLeft] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setNickname(localStorage.getItem(NICKNAME_KEY) || '');
+    // Rejoin after a reload; the session is per tab so friends can share a browser
+    const saved = sessionStorage.getItem(SESSION_KEY);
+    if (saved) {
+      setSession(JSON.parse(saved));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+    const events = new EventSource(`/api/rooms/${session.code}/events?token=${session.token}`);
+    events.addEventListener('state', (event) => {
+      const state: RoomState = JSON.parse((event as MessageEvent).data);
+      setRoom(state);
+      setTimeLeft(state.round?.timeLeft ?? 0);
+    });
+    events.onerror = () => {
+      // EventSource retries on its own; a closed stream means the room is gone
+      if (events.readyState === EventSource.CLOSED) {
+        sessionStorage.removeItem(SESSION_KEY);
+        setSession(null);
+        setRoom(null);
+      }
+    };
+    return () => events.close();
+  }, [session]);
+
+  useEffect(() => {
+    let timer: NodeJS.Timeout;
+    if (room?.phase === 'question' && timeLeft > 0) {
+      timer = setInterval(() => setTimeLeft(prev => Math.max(0, prev - 1)), 1000);
+    }
+    return () => clearInterval(timer);
+  }, [room?.phase, timeLeft]);
+
+  const me = room?.players.find(player => player.id === session?.playerId);
+  const isHost = room?.hostId === session?.playerId;
+  const ranking = room ? [...room.players].sort((a, b) => b.score - a.score) : [];
+
+  const post = async (url: string, body: object) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('room.failed'));
+      }
+      return data;
+    } catch (error) {
+      console.error(`Error calling ${url}:`, error);
+      alert(error instanceof Error ? error.message : t('room.failed'));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const enterRoom = (result: RoomJoinResult | null) => {
+    if (!result) {
+      return;
+    }
+    const next = { code: result.room.code, playerId: result.playerId, token: result.token };
+    localStorage.setItem(NICKNAME_KEY, nickname.trim());
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(next));
+    setRoom(result.room);
+    setSession(next);
+  };
+
+  const handleCreate = async () => {
+    // Rounds are written in the host's language for everyone in the room
+    enterRoom(await post('/api/rooms', { topic, nickname, locale }));
+  };
+
+  const handleJoin = async () => {
+    enterRoom(await post(`/api/rooms/${code.trim().toUpperCase()}/join`, { nickname }));
+  };
+
+  const handleNextRound = () => {
+    if (session) {
+      post(`/api/rooms/${session.code}/next`, { token: session.token });
+    }
+  };
+
+  const handleAnswer = (index: number) => {
+    if (session && room?.phase === 'question' && !me?.answered) {
+      post(`/api/rooms/${session.code}/answer`, { token: session.token, index });
+    }
+  };
+
+  const handleLeave = () => {
+    sessionStorage.removeItem(SESSION_KEY);
+    setSession(null);
+    setRoom(null);
+  };
+
+  if (!session || !room) {
+    return (
+      <div className="max-w-2xl mx-auto p-6 bg-white/10 backdrop-blur-lg rounded-xl shadow-xl space-y-6">
+        <h1 className="text-4xl font-bold text-center bg-gradient-to-r from-purple-400 via-pink-400 to-purple-400 text-transparent bg-clip-text animate-gradient">{t('room.title')}</h1>
+        <input
+          type="text"
+          value={nickname}
+          maxLength={20}
+          onChange={(e) => setNickname(e.target.value)}
+          placeholder={t('leaderboard.alias')}
+          className="w-full p-4 rounded-xl bg-white/20 text-white placeholder-white/50 border-2 border-white/10 focus:border-purple-400/50 outline-none transition-colors"
+        />
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              placeholder={t('setup.placeholder')}
+              className="w-full p-3 rounded-xl bg-white/20 text-white placeholder-white/50 border-2 border-white/10 focus:border-purple-400/50 outline-none transition-colors"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={busy || !nickname.trim() || !topic.trim()}
+              className="w-full px-6 py-3 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-xl hover:from-purple-700 hover:to-pink-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+            >
+              {t('room.host')}
+            </button>
+          </div>
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={code}
+              maxLength={5}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder={t('room.code')}
+              className="w-full p-3 rounded-xl bg-white/20 text-white placeholder-white/50 border-2 border-white/10 focus:border-purple-400/50 outline-none transition-colors tracking-widest uppercase"
+            />
+            <button
+              onClick={handleJoin}
+              disabled={busy || !nickname.trim() || !code.trim()}
+              className="w-full px-6 py-3 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+            >
+              {t('room.join')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-6 bg-white/10 backdrop-blur-lg rounded-lg shadow-xl text-white space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <p className="text-sm text-white/60">{t('room.code')}</p>
+          <p className="text-3xl font-bold tracking-widest">{room.code}</p>
+        </div>
+        <div className="text-right">
+          <p className="font-semibold">{t('game.topic', { topic: room.topic })}</p>
+          {room.round && <p className="text-sm text-white/60">{t('game.round', { round: room.round.number, total: room.totalRounds })}</p>}
+          {room.phase === 'question' && <p>⏱️ {timeLeft}s</p>}
+        </div>
+      </div>
+
+      {room.error && <p className="text-red-300">⚠️ {room.error}</p>}
+
+      {room.phase === 'lobby' && (
+        <div className="text-center space-y-3">
+          <p className="text-lg">{t('room.waiting', { code: room.code })}</p>
+          <p className="text-white/70">{t('room.rules', { seconds: room.roundSeconds })}</p>
+        </div>
+      )}
+
+      {room.phase === 'loading' && (
+        <p className="text-center text-lg py-8">{t('room.loading')}</p>
+      )}
+
+      {room.round && (room.phase === 'question' || room.phase === 'reveal' || room.phase === 'finished') && (
+        <div className="space-y-4">
+          {room.round.stories.map((story, index) => {
+            const pickedBy = room.players.filter(player => player.selectedIndex === index);
+            const revealed = room.round!.correctIndex !== undefined;
+            return (
+              <div
+                key={index}
+                onClick={() => handleAnswer(index)}
+                className={`p-6 rounded-xl backdrop-blur-md transition-all ${
+                  revealed
+                    ? index === room.round!.correctIndex
+                      ? 'bg-gradient-to-r from-green-500/20 to-emerald-500/20 border-2 border-green-400/30'
+                      : 'bg-gradient-to-r from-red-500/20 to-pink-500/20 border-2 border-red-400/30'
+                    : me?.answered
+                    ? 'bg-white/5 border-2 border-white/10'
+                    : 'bg-white/10 hover:bg-white/20 border-2 border-white/10 cursor-pointer transform hover:scale-[1.02]'
+                }`}
+              >
+                <p className="text-lg leading-relaxed">{story.content}</p>
+                {revealed && (
+                  <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+                    <span className={story.isReal ? 'text-green-300 font-medium' : 'text-red-300 font-medium'}>
+                      {story.isReal ? t('room.real') : t('room.fake')}
+                    </span>
+                    {pickedBy.map(player => (
+                      <span key={player.id} className="px-2 py-1 rounded-full bg-white/10">{player.nickname}</span>
+                    ))}
+                    {story.isReal && story.sourceUrl && (
+                      <a href={story.sourceUrl} target="_blank" rel="noopener noreferrer" className="ml-auto text-blue-300 hover:text-blue-400">
+                        {t('game.viewOriginal')} →
+                      </a>
+                    )}
+                  </div>
+                )}
+                {revealed && story.explanation && (
+                  <p className="mt-2 text-sm text-white/80 bg-black/20 rounded-lg px-3 py-2">
+                    {story.isReal ? t('game.whatWasReal') : t('game.whatGaveItAway')}
+                    {story.explanation}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="bg-white/10 p-4 rounded-xl">
+        <p className="font-semibold mb-2">{room.phase === 'finished' ? t('room.finalScores') : t('room.scoreboard')}</p>
+        <ol className="space-y-1">
+          {ranking.map((player, index) => (
+            <li key={player.id} className={`flex justify-between px-3 py-1 rounded-lg ${player.id === me?.id ? 'bg-purple-500/30' : ''}`}>
+              <span className={player.connected ? '' : 'text-white/40'}>
+                {index + 1}. {player.nickname}
+                {player.id === room.hostId && ' 👑'}
+                {room.phase === 'question' && player.answered && ' ✅'}
+                {player.isCorrect !== undefined && (player.isCorrect ? ' 🎯' : ' ❌')}
+              </span>
+              <span>{t('score.points', { points: player.score })}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {isHost && (room.phase === 'lobby' || room.phase === 'reveal') && (
+        <button
+          onClick={handleNextRound}
+          disabled={busy}
+          className="w-full px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          {room.phase === 'lobby' ? t('room.start') : t('room.next')}
+        </button>
+      )}
+      {!isHost && (room.phase === 'lobby' || room.phase === 'reveal') && (
+        <p className="text-center text-white/60">{t('room.waitingHost')}</p>
+      )}
+      {room.phase === 'finished' && (
+        <button
+          onClick={handleLeave}
+          className="w-full px-6 py-3 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg hover:from-purple-700 hover:to-pink-700 transition-all"
+        >
+          {t('room.leave')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import { RoundImportResult } from '@/types/curation';
+
+// Moves rounds between deployments: download the round bank as a round file, or load one made by `npm run generate-rounds`
+export default function RoundFilePanel({ onImported }: { onImported: () => void }) {
+  const [approve, setApprove] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    setImporting(true);
+    setStatus('');
+    try {
+      const response = await fetch(`/api/admin/rounds/import?status=${approve ? 'approved' : 'pending'}`, {
+        method: 'POST',
+        body: await file.text(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import rounds');
+      }
+      const result = data as RoundImportResult;
+      setStatus(approve
+        ? `Imported ${result.imported} rounds into the round bank ✅`
+        : `Imported ${result.imported} rounds for review 🕵️`);
+      onImported();
+    } catch (error) {
+      console.error('Error importing rounds:', error);
+      setStatus(error instanceof Error ? error.message : 'Failed to import rounds');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-4 rounded-xl bg-white/5 border-2 border-white/10 text-sm">
+      <span className="font-medium">Round files</span>
+      <a
+        href="/api/admin/rounds/export?format=jsonl"
+        download
+        className="px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 transition-colors"
+      >
+        Export round bank ⬇️
+      </a>
+      <label className={`px-4 py-2 rounded-xl bg-purple-600 hover:bg-purple-700 transition-colors cursor-pointer ${importing ? 'opacity-50' : ''}`}>
+        {importing ? 'Importing...' : 'Import round file ⬆️'}
+        <input type="file" accept=".json,.jsonl,application/json" onChange={handleFile} disabled={importing} className="sr-only" />
+      </label>
+      <label className="flex items-center gap-2 text-white/80">
+        <input type="checkbox" checked={approve} onChange={(e) => setApprove(e.target.checked)} />
+        Approve on import
+      </label>
+      {status && <p role="status" className="w-full text-white/70">{status}</p>}
+    </div>
+  );
+}
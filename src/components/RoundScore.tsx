@@ -0,0 +1,31 @@
+'use client';
+
+import { ScoreBreakdown } from '@/types/gossip';
+import { useI18n } from './LocaleProvider';
+
+function signed(points: number) {
+  return points < 0 ? `−${Math.abs(points)}` : `+${points}`;
+}
+
+// One reveal's points, e.g. "+150 base · +40 speed · +48 streak ×1.25 · +100 bet = +338 pts"
+export default function RoundScore({ scoring }: { scoring: ScoreBreakdown }) {
+  const { t } = useI18n();
+  const parts = scoring.base > 0
+    ? [
+      t('score.base', { points: signed(scoring.base) }),
+      scoring.speedBonus > 0 ? t('score.speed', { points: signed(scoring.speedBonus), seconds: scoring.answerSeconds }) : null,
+      scoring.streakBonus > 0 ? t('score.streak', { points: signed(scoring.streakBonus), multiplier: scoring.streakMultiplier }) : null,
+    ]
+    : [t('score.missed')];
+  if (scoring.wager > 0) {
+    parts.push(t('score.bet', { points: signed(scoring.wagerPoints), wager: scoring.wager }));
+  }
+
+  return (
+    <p className="text-center text-white/90">
+      {parts.filter(Boolean).join(' · ')}
+      {' = '}
+      <span className={`font-bold ${scoring.points < 0 ? 'text-red-300' : 'text-green-300'}`}>{t('score.points', { points: signed(scoring.points) })}</span>
+    </p>
+  );
+}
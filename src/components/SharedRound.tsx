@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { GossipStory, GuessResult, PublicGossipStory, PublicRound } from '@/types/gossip';
+import { useI18n } from './LocaleProvider';
+import ReportRound from './ReportRound';
+
+// Typing in these (the report form) never counts as a keyboard shortcut
+const TEXT_INPUTS = ['INPUT', 'TEXTAREA', 'SELECT'];
+
+export default function SharedRound({ round }: { round: PublicRound }) {
+  const { t } = useI18n();
+  const router = useRouter();
+  const [stories, setStories] = useState<(PublicGossipStory & Partial<GossipStory>)[]>(round.stories);
+  const [result, setResult] = useState<GuessResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleGuess = async (index: number) => {
+    if (result || submitting) {
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/rounds/${round.roundId}/check`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ index }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || t('game.guessFailed'));
+      }
+      setResult(data);
+      setStories(data.stories);
+    } catch (error) {
+      console.error('Error submitting guess:', error);
+      alert(error instanceof Error ? error.message : t('game.guessFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const gameUrl = `/quiz?topic=${encodeURIComponent(round.topic)}`;
+
+  // Same keys as a full game: 1-N pick a story, Enter goes on to a full game after the reveal
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (event.altKey || event.ctrlKey || event.metaKey || (target && TEXT_INPUTS.includes(target.tagName))) {
+        return;
+      }
+      const number = Number(event.key);
+      if (!result && Number.isInteger(number) && number >= 1 && number <= stories.length) {
+        event.preventDefault();
+        handleGuess(number - 1);
+      } else if (result && event.key === 'Enter' && target?.tagName !== 'BUTTON' && target?.tagName !== 'A') {
+        event.preventDefault();
+        router.push(gameUrl);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="max-w-2xl mx-auto p-6 bg-white/10 backdrop-blur-lg rounded-lg shadow-xl text-white space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">{t('shared.title', { topic: round.topic })}</h1>
+        <p className="text-sm text-white/60">
+          {t('game.source', { source: round.source.label })} · {t('game.difficulty', { difficulty: t(`difficulty.${round.difficulty}`) })}
+        </p>
+      </div>
+
+      {result && (
+        <p className={`text-xl font-medium ${result.isCorrect ? 'text-green-300' : 'text-red-300'}`}>
+          {result.isCorrect ? t('shared.correct') : t('shared.wrong')}
+        </p>
+      )}
+
+      <div role="group" aria-label={t('game.stories')} className="space-y-4">
+        {stories.map((story, index) => (
+          <div
+            key={index}
+            className={`rounded-xl backdrop-blur-md transition-all ${
+              result
+                ? index === result.correctIndex
+                  ? 'bg-gradient-to-r from-green-500/20 to-emerald-500/20 border-2 border-green-400/30'
+                  : index === result.selectedIndex
+                  ? 'bg-gradient-to-r from-red-500/20 to-pink-500/20 border-2 border-red-400/30'
+                  : 'bg-white/5 border-2 border-white/10'
+                : 'bg-white/10 hover:bg-white/20 border-2 border-white/10 transform hover:scale-[1.02]'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => handleGuess(index)}
+              aria-disabled={Boolean(result) || submitting}
+              aria-pressed={result?.selectedIndex === index}
+              aria-keyshortcuts={String(index + 1)}
+              className="w-full p-6 flex items-start gap-4 text-left rounded-xl cursor-pointer aria-disabled:cursor-default outline-none focus-visible:ring-2 focus-visible:ring-purple-300"
+            >
+              <span aria-hidden="true" className="shrink-0 w-7 h-7 flex items-center justify-center rounded-full bg-white/10 text-sm text-white/70">{index + 1}</span>
+              <span className="sr-only">{t('game.storyNumber', { number: index + 1 })}: </span>
+              <span className="text-lg leading-relaxed">{story.content}</span>
+            </button>
+            {result && index === result.correctIndex && (
+              <div className="px-6 pb-4 flex items-center justify-between">
+                <span className="text-green-300 font-medium">{t('game.real')}</span>
+                {story.sourceUrl && (
+                  <a
+                    href={story.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-300 hover:text-blue-400 flex items-center gap-2 transition-colors"
+                  >
+                    <span>{t('game.viewOriginal')}</span>
+                    <span className="text-xl">→</span>
+                  </a>
+                )}
+              </div>
+            )}
+            {result && story.explanation && (
+              <p className="mx-6 mb-6 text-sm text-white/80 bg-black/20 rounded-lg px-3 py-2">
+                {story.isReal ? t('game.whatWasReal') : t('game.whatGaveItAway')}
+                {story.explanation}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-center text-sm text-white/60">
+        {result ? t('shared.keyboardPlayHint') : t('game.keyboardHint', { count: stories.length })}
+      </p>
+      <p role="status" className="sr-only">
+        {result ? t(result.isCorrect ? 'game.announceCorrect' : 'game.announceWrong', { number: result.correctIndex + 1 }) : ''}
+      </p>
+
+      {result && (
+        <Link
+          href={gameUrl}
+          className="block w-full text-center px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+        >
+          {t('shared.playFull', { topic: round.topic })}
+        </Link>
+      )}
+      {result && <ReportRound roundId={round.roundId} />}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cookies, headers } from 'next/headers';
+import { HttpError } from '@/lib/errors';
+
+const ADMIN_COOKIE = 'gossaip_admin';
+const ADMIN_SESSION_MAX_AGE = 60 * 60 * 12;
+
+// One shared secret for every curator; without it the admin area is switched off
+function getAdminSecret() {
+  return process.env.GOSSIP_ADMIN_SECRET || undefined;
+}
+
+function requireAdminSecret() {
+  const secret = getAdminSecret();
+  if (!secret) {
+    throw new HttpError('The admin console is disabled; set GOSSIP_ADMIN_SECRET to enable it', 503);
+  }
+  return secret;
+}
+
+// Keyed by the secret itself, so changing the secret signs every curator out
+function sign(secret: string, expires: number) {
+  return createHmac('sha256', secret).update(`admin:${expires}`).digest('hex');
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function isAdminEnabled() {
+  return Boolean(getAdminSecret());
+}
+
+// Curators log in for a signed cookie; scripts, like a round file import, can send the secret as a bearer token instead
+export function isAdmin() {
+  const secret = getAdminSecret();
+  const authorization = headers().get('authorization') ?? '';
+  if (secret && authorization.startsWith('Bearer ')) {
+    return safeEqual(authorization.slice('Bearer '.length), secret);
+  }
+  const [expires, signature] = (cookies().get(ADMIN_COOKIE)?.value ?? '').split('.');
+  if (!secret || !signature || !(Number(expires) > Date.now())) {
+    return false;
+  }
+  return safeEqual(signature, sign(secret, Number(expires)));
+}
+
+export function requireAdmin() {
+  requireAdminSecret();
+  if (!isAdmin()) {
+    throw new HttpError('Admin login required', 401);
+  }
+}
+
+export function logIn(secret: unknown) {
+  const configured = requireAdminSecret();
+  if (typeof secret !== 'string' || !safeEqual(secret, configured)) {
+    throw new HttpError('Wrong admin secret', 401);
+  }
+  const expires = Date.now() + ADMIN_SESSION_MAX_AGE * 1000;
+  cookies().set(ADMIN_COOKIE, `${expires}.${sign(configured, expires)}`, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ADMIN_SESSION_MAX_AGE,
+  });
+}
+
+export function logOut() {
+  cookies().delete(ADMIN_COOKIE);
+}
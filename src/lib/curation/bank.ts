@@ -0,0 +1,87 @@
+import { SourceInfo } from '@/types/content';
+import { DifficultyLevel, GossipStory, RoundGeneration } from '@/types/gossip';
+import { GossipGame } from '@/types/reddit';
+import { HttpError } from '@/lib/errors';
+import { pickRandom, shuffle } from '@/lib/random';
+import { getCollection } from '@/lib/storage';
+import { SavedRound } from '@/lib/game/rounds';
+
+// An approved round, as curators last left it
+export interface BankRound {
+  id: string;
+  topic: string;
+  // Lowercased topic, so "taylor swift" games find rounds approved under "Taylor Swift"
+  topicKey: string;
+  source: SourceInfo;
+  difficulty: DifficultyLevel;
+  stories: GossipStory[];
+  generation?: RoundGeneration;
+  approvedAt: number;
+}
+
+const bank = () => getCollection<BankRound>('round-bank');
+
+export function getTopicKey(topic: string) {
+  return topic.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// GOSSIP_APPROVED_ONLY=on makes every regular game curated, whatever the player picked
+export function isApprovedOnlyForced() {
+  return process.env.GOSSIP_APPROVED_ONLY === 'on';
+}
+
+export async function putBankRound(round: SavedRound) {
+  const existing = await bank().get(round.id);
+  return bank().put({
+    id: round.id,
+    topic: round.topic,
+    topicKey: getTopicKey(round.topic),
+    source: round.source,
+    difficulty: round.difficulty,
+    stories: round.stories,
+    generation: round.generation,
+    approvedAt: existing?.approvedAt ?? Date.now(),
+  });
+}
+
+export async function removeBankRound(id: string) {
+  return bank().delete(id);
+}
+
+export async function listBankRounds(topic: string) {
+  const topicKey = getTopicKey(topic);
+  return (await bank().list()).filter(round => round.topicKey === topicKey);
+}
+
+// How many approved rounds a curated game on this topic can play
+export async function requireBankRounds(topic: string) {
+  const count = (await listBankRounds(topic)).length;
+  if (count === 0) {
+    throw new HttpError(`No approved rounds for "${topic}" yet`, 404);
+  }
+  return count;
+}
+
+// A random approved round the game hasn't played yet, with its stories in a fresh order
+export async function takeApprovedRound(topic: string, played: string[] = []): Promise<GossipGame> {
+  const rounds = await listBankRounds(topic);
+  if (rounds.length === 0) {
+    throw new HttpError(`No approved rounds for "${topic}" yet`, 404);
+  }
+  const round = pickRandom(rounds.filter(candidate => !played.includes(candidate.id)));
+  if (!round) {
+    throw new HttpError('Every approved round for this topic has been played', 410);
+  }
+  const options = shuffle(round.stories);
+  return {
+    topic: round.topic,
+    source: round.source,
+    difficulty: round.difficulty,
+    decoyAttempts: 0,
+    bankId: round.id,
+    generation: round.generation,
+    options,
+    correctIndex: options.findIndex(option => option.isReal),
+    isRevealed: false,
+  };
+}
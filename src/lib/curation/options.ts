@@ -0,0 +1,5 @@
+import { ReportReason, ReviewQueue } from '@/types/curation';
+
+// Shared by the API and the browser, so kept free of server-only imports
+export const REPORT_REASONS: ReportReason[] = ['wrong-answer', 'broken-story', 'off-topic', 'offensive', 'other'];
+export const REVIEW_QUEUES: ReviewQueue[] = ['reported', 'pending', 'approved', 'flagged'];
@@ -0,0 +1,219 @@
+import { randomUUID } from 'crypto';
+import {
+  ReportReason,
+  ReviewQueue,
+  ReviewRound,
+  ReviewRoundSummary,
+  ReviewStatus,
+  ReviewUpdate,
+  RoundFileEntry,
+  RoundImportResult,
+  RoundReport,
+} from '@/types/curation';
+import { HttpError } from '@/lib/errors';
+import { getCollection } from '@/lib/storage';
+import { SavedRound, getSavedRound, listSavedRounds, updateSavedRound } from '@/lib/game/rounds';
+import { putBankRound, removeBankRound } from './bank';
+import { REPORT_REASONS, REVIEW_QUEUES } from './options';
+import { fromRoundFileEntry, toRoundFileEntry } from './roundFile';
+
+const MAX_NOTE_LENGTH = 500;
+const MAX_STORY_LENGTH = 1000;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+const PREVIEW_LENGTH = 120;
+
+const reports = () => getCollection<RoundReport>('round-reports');
+
+export function parseReportReason(value: unknown): ReportReason {
+  const reason = REPORT_REASONS.find(option => option === value);
+  if (!reason) {
+    throw new HttpError(`Reason must be one of ${REPORT_REASONS.join(', ')}`, 400);
+  }
+  return reason;
+}
+
+export function parseReviewQueue(value: string | null): ReviewQueue | undefined {
+  return REVIEW_QUEUES.find(queue => queue === value);
+}
+
+function parseNote(value: unknown) {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new HttpError('Note must be text', 400);
+  }
+  return value.trim().slice(0, MAX_NOTE_LENGTH) || undefined;
+}
+
+function getStatus(round: SavedRound): ReviewStatus {
+  return round.review?.status ?? 'pending';
+}
+
+function toSummary(round: SavedRound, openReports: number): ReviewRoundSummary {
+  return {
+    id: round.id,
+    topic: round.topic,
+    source: round.source,
+    difficulty: round.difficulty,
+    status: getStatus(round),
+    openReports,
+    preview: round.stories[round.correctIndex]?.content.slice(0, PREVIEW_LENGTH) ?? '',
+    createdAt: round.createdAt,
+  };
+}
+
+// Rounds replayed from the bank are saved under a new id; their reports belong to the bank round they came from
+export async function reportRound(roundId: string, { reason, note }: { reason: unknown; note?: unknown }, playerId?: string) {
+  const round = await getSavedRound(roundId);
+  const targetId = round.bankId ?? round.id;
+  const parsedReason = parseReportReason(reason);
+  const collection = reports();
+  // One open report per player and round is enough to put it in the queue
+  const existing = playerId
+    ? (await collection.list()).find(report => report.roundId === targetId && report.playerId === playerId && !report.resolvedAt)
+    : undefined;
+  if (existing) {
+    return existing;
+  }
+  return collection.put({
+    id: randomUUID(),
+    roundId: targetId,
+    reason: parsedReason,
+    note: parseNote(note),
+    playerId,
+    createdAt: Date.now(),
+  });
+}
+
+// Reported rounds come most-reported first, every other queue newest first
+export async function listReviewRounds({ queue = 'reported', topic, limit = DEFAULT_LIST_LIMIT }: {
+  queue?: ReviewQueue;
+  topic?: string;
+  limit?: number;
+}): Promise<ReviewRoundSummary[]> {
+  const openReports = new Map<string, number>();
+  (await reports().list())
+    .filter(report => !report.resolvedAt)
+    .forEach(report => openReports.set(report.roundId, (openReports.get(report.roundId) ?? 0) + 1));
+
+  const search = topic?.trim().toLowerCase();
+  const summaries = (await listSavedRounds())
+    .filter(round => !round.bankId)
+    .filter(round => !search || round.topic.toLowerCase().includes(search))
+    .map(round => toSummary(round, openReports.get(round.id) ?? 0))
+    .filter(summary => (queue === 'reported' ? summary.openReports > 0 : summary.status === queue))
+    .sort((a, b) => (queue === 'reported' ? b.openReports - a.openReports : 0) || b.createdAt - a.createdAt);
+
+  const size = Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIST_LIMIT) : DEFAULT_LIST_LIMIT;
+  return summaries.slice(0, size);
+}
+
+export async function getReviewRound(id: string): Promise<ReviewRound> {
+  const round = await getSavedRound(id);
+  const roundReports = (await reports().list())
+    .filter(report => report.roundId === round.id)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  return {
+    ...toSummary(round, roundReports.filter(report => !report.resolvedAt).length),
+    stories: round.stories,
+    correctIndex: round.correctIndex,
+    note: round.review?.note,
+    reviewedAt: round.review?.reviewedAt,
+    editedAt: round.editedAt,
+    reports: roundReports,
+  };
+}
+
+// Edits keep which story is real and where it came from; only the wording changes
+function applyStoryEdits(round: SavedRound, stories: unknown) {
+  if (!Array.isArray(stories) || stories.length !== round.stories.length) {
+    throw new HttpError(`Expected ${round.stories.length} stories`, 400);
+  }
+  return round.stories.map((story, index) => {
+    const edit = stories[index];
+    const content = typeof edit?.content === 'string' ? edit.content.trim() : '';
+    if (!content || content.length > MAX_STORY_LENGTH) {
+      throw new HttpError(`Story ${index + 1} must be between 1 and ${MAX_STORY_LENGTH} characters`, 400);
+    }
+    const explanation = typeof edit?.explanation === 'string' ? edit.explanation.trim() : story.explanation;
+    return { ...story, content, explanation: explanation || undefined };
+  });
+}
+
+// Approving copies the round, edits included, into the bank; flagging takes it back out. Either one closes its reports.
+export async function reviewRound(id: string, update: ReviewUpdate): Promise<ReviewRound> {
+  const round = await getSavedRound(id);
+  if (round.bankId) {
+    throw new HttpError('Review the original round instead of a replay', 400);
+  }
+  const now = Date.now();
+
+  if (update.topic !== undefined || update.stories !== undefined) {
+    if (update.topic !== undefined) {
+      const topic = typeof update.topic === 'string' ? update.topic.trim() : '';
+      if (!topic) {
+        throw new HttpError('Topic is required', 400);
+      }
+      round.topic = topic;
+    }
+    if (update.stories !== undefined) {
+      round.stories = applyStoryEdits(round, update.stories);
+    }
+    round.editedAt = now;
+  }
+
+  if (update.status !== undefined) {
+    if (update.status !== 'approved' && update.status !== 'flagged') {
+      throw new HttpError('Status must be approved or flagged', 400);
+    }
+    round.review = { status: update.status, note: parseNote(update.note), reviewedAt: now };
+    const collection = reports();
+    const open = (await collection.list()).filter(report => report.roundId === round.id && !report.resolvedAt);
+    for (const report of open) {
+      await collection.put({ ...report, resolvedAt: now });
+    }
+  } else if (update.note !== undefined && round.review) {
+    round.review = { ...round.review, note: parseNote(update.note) };
+  }
+
+  await updateSavedRound(round);
+  if (getStatus(round) === 'approved') {
+    await putBankRound(round);
+  } else {
+    await removeBankRound(round.id);
+  }
+  return getReviewRound(round.id);
+}
+
+// Oldest first, so exporting the same rounds twice gives the same file
+export async function exportRounds({ status = 'approved', topic }: { status?: ReviewStatus; topic?: string } = {}) {
+  const search = topic?.trim().toLowerCase();
+  return (await listSavedRounds())
+    .filter(round => !round.bankId && getStatus(round) === status)
+    .filter(round => !search || round.topic.toLowerCase().includes(search))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(toRoundFileEntry);
+}
+
+// Imported rounds replace saved rounds with the same id; approved ones go straight into the round bank
+export async function importRounds(
+  entries: RoundFileEntry[],
+  status: Exclude<ReviewStatus, 'flagged'> = 'approved'
+): Promise<RoundImportResult> {
+  const now = Date.now();
+  for (const entry of entries) {
+    const round: SavedRound = {
+      ...fromRoundFileEntry(entry),
+      review: status === 'approved' ? { status, note: 'Imported from a round file', reviewedAt: now } : undefined,
+    };
+    await updateSavedRound(round);
+    if (status === 'approved') {
+      await putBankRound(round);
+    } else {
+      await removeBankRound(round.id);
+    }
+  }
+  return { imported: entries.length, approved: status === 'approved' ? entries.length : 0 };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { HttpError } from '@/lib/errors';
+import { SavedRound } from '@/lib/game/rounds';
+import {
+  ROUND_FILE_VERSION,
+  fromRoundFileEntry,
+  parseRoundFile,
+  serializeRoundFile,
+  toRoundFileEntry,
+} from './roundFile';
+
+const savedRound: SavedRound = {
+  id: 'round-1',
+  topic: 'Taylor Swift',
+  source: { id: 'reddit', label: 'Reddit', community: 'r/popheads' },
+  difficulty: 'hard',
+  decoyAttempts: 2,
+  stories: [
+    { content: 'A made-up story.', isReal: false, explanation: 'No one reported this.' },
+    { content: 'The real story.', isReal: true, sourceUrl: 'https://www.reddit.com/r/popheads/comments/abc', explanation: 'From the post.' },
+    { content: 'Another made-up story.', isReal: false },
+  ],
+  correctIndex: 1,
+  createdAt: Date.parse('2026-01-02T03:04:05.000Z'),
+  generation: {
+    locale: 'en',
+    promptVersion: 3,
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    generatedAt: Date.parse('2026-01-02T03:04:05.000Z'),
+  },
+};
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return { ...toRoundFileEntry(savedRound), ...overrides };
+}
+
+function parseError(text: string) {
+  try {
+    parseRoundFile(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(400);
+    return (error as HttpError).message;
+  }
+  throw new Error('Expected the round file to be rejected');
+}
+
+describe('round files', () => {
+  it("keep the real story's link but not which stories are real", () => {
+    const exported = toRoundFileEntry(savedRound);
+    expect(exported).toMatchObject({ version: ROUND_FILE_VERSION, answer: 1 });
+    expect(exported.source.url).toBe('https://www.reddit.com/r/popheads/comments/abc');
+    expect(exported.stories[1]).toEqual({ content: 'The real story.', explanation: 'From the post.' });
+    expect(exported.generation.generatedAt).toBe('2026-01-02T03:04:05.000Z');
+  });
+
+  it('round-trip through JSONL and JSON', () => {
+    const entries = [toRoundFileEntry(savedRound), toRoundFileEntry({ ...savedRound, id: 'round-2' })];
+    for (const format of ['jsonl', 'json'] as const) {
+      const parsed = parseRoundFile(serializeRoundFile(entries, format));
+      expect(parsed).toEqual(entries);
+      expect(fromRoundFileEntry(parsed[0])).toEqual(savedRound);
+    }
+  });
+
+  it('drop generation details unless all of them are there', () => {
+    const { provider, ...generation } = toRoundFileEntry(savedRound).generation;
+    expect(provider).toBe('openai');
+    expect(fromRoundFileEntry({ ...toRoundFileEntry(savedRound), generation }).generation).toBeUndefined();
+  });
+
+  it('accept a bare array, a single round and plain-text stories', () => {
+    expect(parseRoundFile(JSON.stringify([entry()]))).toHaveLength(1);
+    const [handWritten] = parseRoundFile(JSON.stringify(entry({ id: undefined, stories: ['One', 'Two'], answer: 0 })));
+    expect(handWritten.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(handWritten.stories).toEqual([{ content: 'One', explanation: undefined }, { content: 'Two', explanation: undefined }]);
+  });
+
+  it('reject empty files and broken JSON', () => {
+    expect(parseError('  \n')).toBe('The round file is empty');
+    expect(parseError('{"rounds": [')).toBe("The round file isn't valid JSON");
+    expect(parseError(`${JSON.stringify(entry())}\n{"version": 1,}`)).toBe("Line 2 isn't valid JSON");
+  });
+
+  it('reject files from a newer version', () => {
+    const file = { version: ROUND_FILE_VERSION + 1, exportedAt: '2026-01-02T03:04:05.000Z', rounds: [entry()] };
+    expect(parseError(JSON.stringify(file))).toContain('is newer than this server reads');
+  });
+
+  it('reject the whole file over one bad round', () => {
+    const cases: [Record<string, unknown>, string][] = [
+      [{ stories: [{ content: 'Only one' }] }, 'stories must list between 2 and 6 stories'],
+      [{ answer: 3 }, 'answer must be the index of one of the stories'],
+      [{ topic: ' ' }, 'topic must be between 1 and 200 characters'],
+      [{ source: undefined }, 'source is required'],
+      [{ source: { id: 'myspace', label: 'MySpace' } }, 'source.id must be one of reddit, subreddit, rss, hackernews, file'],
+      [{ generation: { difficulty: 'adaptive' } }, 'generation.difficulty must be easy, normal or hard'],
+      [{ generation: { difficulty: 'easy', locale: 'xx' } }, 'generation.locale "xx" isn\'t supported'],
+    ];
+    cases.forEach(([overrides, message]) => {
+      expect(parseError(JSON.stringify([entry(), entry(overrides)]))).toBe(`Round 2: ${message}`);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { randomUUID } from 'crypto';
+import { RoundFile, RoundFileEntry, RoundFileFormat, RoundFileGeneration } from '@/types/curation';
+import { RoundGeneration } from '@/types/gossip';
+import { HttpError } from '@/lib/errors';
+import { DEFAULT_LOCALE, parseLocale } from '@/lib/i18n/locales';
+import { MAX_DECOYS, MIN_DECOYS } from '@/lib/pipeline';
+import { parseDifficultyMode } from '@/lib/pipeline/difficulty';
+import { SOURCE_IDS, parseSourceId } from '@/lib/sources';
+import { SavedRound } from '@/lib/game/rounds';
+
+// Bump when RoundFileEntry changes shape; files from older versions must keep importing
+export const ROUND_FILE_VERSION = 1;
+
+const ROUND_FILE_FORMATS: RoundFileFormat[] = ['json', 'jsonl'];
+const MAX_TOPIC_LENGTH = 200;
+const MAX_TEXT_LENGTH = 1000;
+
+export function parseRoundFileFormat(value: string | null): RoundFileFormat | undefined {
+  return ROUND_FILE_FORMATS.find(format => format === value);
+}
+
+export function toRoundFileEntry(round: SavedRound): RoundFileEntry {
+  const { generation } = round;
+  return {
+    version: ROUND_FILE_VERSION,
+    id: round.id,
+    topic: round.topic,
+    stories: round.stories.map(({ content, explanation }) => ({ content, explanation })),
+    answer: round.correctIndex,
+    source: { ...round.source, url: round.stories[round.correctIndex]?.sourceUrl },
+    generation: {
+      difficulty: round.difficulty,
+      decoyAttempts: round.decoyAttempts,
+      locale: generation?.locale,
+      promptVersion: generation?.promptVersion,
+      provider: generation?.provider,
+      model: generation?.model,
+      generatedAt: new Date(generation?.generatedAt ?? round.createdAt).toISOString(),
+    },
+  };
+}
+
+// The real story gets its source link back; generation details only survive when the file has all of them
+export function fromRoundFileEntry(entry: RoundFileEntry): SavedRound {
+  const { url, ...source } = entry.source;
+  const { difficulty, decoyAttempts, locale, promptVersion, provider, model, generatedAt } = entry.generation;
+  const createdAt = generatedAt ? Date.parse(generatedAt) : Date.now();
+  const generation: RoundGeneration | undefined = promptVersion !== undefined && provider && model
+    ? { locale: locale ?? DEFAULT_LOCALE, promptVersion, provider, model, generatedAt: createdAt }
+    : undefined;
+  return {
+    id: entry.id,
+    topic: entry.topic,
+    source,
+    difficulty,
+    decoyAttempts,
+    stories: entry.stories.map((story, index) => ({
+      content: story.content,
+      isReal: index === entry.answer,
+      sourceUrl: index === entry.answer ? url : undefined,
+      explanation: story.explanation,
+    })),
+    correctIndex: entry.answer,
+    createdAt,
+    generation,
+  };
+}
+
+export function serializeRoundFile(entries: RoundFileEntry[], format: RoundFileFormat) {
+  if (format === 'jsonl') {
+    return entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+  }
+  const file: RoundFile = { version: ROUND_FILE_VERSION, exportedAt: new Date().toISOString(), rounds: entries };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readText(value: unknown, field: string, maxLength = MAX_TEXT_LENGTH) {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text || text.length > maxLength) {
+    throw new Error(`${field} must be between 1 and ${maxLength} characters`);
+  }
+  return text;
+}
+
+function readOptionalText(value: unknown, field: string, maxLength = MAX_TEXT_LENGTH) {
+  return value === undefined || value === null ? undefined : readText(value, field, maxLength);
+}
+
+function readVersion(value: unknown) {
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new Error('version must be a positive whole number');
+  }
+  if ((value as number) > ROUND_FILE_VERSION) {
+    throw new Error(`version ${value} is newer than this server reads (up to ${ROUND_FILE_VERSION})`);
+  }
+  return value as number;
+}
+
+function readGeneration(value: unknown): RoundFileGeneration {
+  if (!isObject(value)) {
+    throw new Error('generation is required');
+  }
+  const difficulty = parseDifficultyMode(value.difficulty);
+  if (!difficulty || difficulty === 'adaptive') {
+    throw new Error('generation.difficulty must be easy, normal or hard');
+  }
+  const decoyAttempts = value.decoyAttempts ?? 0;
+  if (!Number.isInteger(decoyAttempts) || (decoyAttempts as number) < 0) {
+    throw new Error('generation.decoyAttempts must be a whole number');
+  }
+  const locale = value.locale === undefined ? undefined : parseLocale(value.locale);
+  if (value.locale !== undefined && !locale) {
+    throw new Error(`generation.locale "${value.locale}" isn't supported`);
+  }
+  if (value.promptVersion !== undefined && !Number.isInteger(value.promptVersion)) {
+    throw new Error('generation.promptVersion must be a whole number');
+  }
+  const generatedAt = readOptionalText(value.generatedAt, 'generation.generatedAt');
+  if (generatedAt && Number.isNaN(Date.parse(generatedAt))) {
+    throw new Error('generation.generatedAt must be an ISO 8601 date');
+  }
+  return {
+    difficulty,
+    decoyAttempts: decoyAttempts as number,
+    locale,
+    promptVersion: value.promptVersion as number | undefined,
+    provider: readOptionalText(value.provider, 'generation.provider'),
+    model: readOptionalText(value.model, 'generation.model'),
+    generatedAt,
+  };
+}
+
+// Rounds without an id (hand-written files) get a fresh one
+function readEntry(value: unknown): RoundFileEntry {
+  if (!isObject(value)) {
+    throw new Error('expected a round object');
+  }
+  const version = readVersion(value.version);
+  const minStories = MIN_DECOYS + 1;
+  const maxStories = MAX_DECOYS + 1;
+  if (!Array.isArray(value.stories) || value.stories.length < minStories || value.stories.length > maxStories) {
+    throw new Error(`stories must list between ${minStories} and ${maxStories} stories`);
+  }
+  const stories = value.stories.map((story: unknown, index) => ({
+    content: readText(isObject(story) ? story.content : story, `story ${index + 1}`),
+    explanation: isObject(story) ? readOptionalText(story.explanation, `story ${index + 1} explanation`) : undefined,
+  }));
+  if (!Number.isInteger(value.answer) || (value.answer as number) < 0 || (value.answer as number) >= stories.length) {
+    throw new Error('answer must be the index of one of the stories');
+  }
+  if (!isObject(value.source)) {
+    throw new Error('source is required');
+  }
+  const sourceId = parseSourceId(value.source.id);
+  if (!sourceId) {
+    throw new Error(`source.id must be one of ${SOURCE_IDS.join(', ')}`);
+  }
+  return {
+    version,
+    id: readOptionalText(value.id, 'id', MAX_TOPIC_LENGTH) ?? randomUUID(),
+    topic: readText(value.topic, 'topic', MAX_TOPIC_LENGTH),
+    stories,
+    answer: value.answer as number,
+    source: {
+      id: sourceId,
+      label: readText(value.source.label, 'source.label', MAX_TOPIC_LENGTH),
+      community: readOptionalText(value.source.community, 'source.community', MAX_TOPIC_LENGTH),
+      url: readOptionalText(value.source.url, 'source.url'),
+    },
+    generation: readGeneration(value.generation),
+  };
+}
+
+function parseJson(text: string, label: string) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(`${label} isn't valid JSON`, 400);
+  }
+}
+
+// Takes a JSON round file, a bare array of rounds, or JSONL; one bad round rejects the whole file
+export function parseRoundFile(text: string): RoundFileEntry[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new HttpError('The round file is empty', 400);
+  }
+
+  let items: { value: unknown; label: string }[];
+  const lines = trimmed.split('\n');
+  if (lines.length > 1 && lines.every(line => !line.trim() || (line.trim().startsWith('{') && line.trim().endsWith('}')))) {
+    items = lines
+      .map((line, index) => ({ line: line.trim(), label: `Line ${index + 1}` }))
+      .filter(({ line }) => line)
+      .map(({ line, label }) => ({ value: parseJson(line, label), label }));
+  } else {
+    const parsed = parseJson(trimmed, 'The round file');
+    if (isObject(parsed) && Array.isArray(parsed.rounds)) {
+      try {
+        readVersion(parsed.version);
+      } catch (error) {
+        throw new HttpError(`The round file's ${(error as Error).message}`, 400);
+      }
+    }
+    const rounds = Array.isArray(parsed) ? parsed : isObject(parsed) && Array.isArray(parsed.rounds) ? parsed.rounds : [parsed];
+    items = rounds.map((value: unknown, index: number) => ({ value, label: `Round ${index + 1}` }));
+  }
+
+  return items.map(({ value, label }) => {
+    try {
+      return readEntry(value);
+    } catch (error) {
+      throw new HttpError(`${label}: ${(error as Error).message}`, 400);
+    }
+  });
+}
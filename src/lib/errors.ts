@@ -0,0 +1,7 @@
+// Errors that map onto an HTTP status when they reach a route handler
+export class HttpError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type FixtureMode = 'live' | 'record' | 'replay';
+type FixtureKind = 'http' | 'llm' | 'moderation';
+
+interface FixtureFile<T> {
+  kind: FixtureKind;
+  request: unknown;
+  responses: T[];
+}
+
+interface RecordedHttpResponse {
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+// GOSSIP_FIXTURES=record saves outbound traffic, GOSSIP_FIXTURES=replay serves it back offline
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.GOSSIP_FIXTURES;
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+function getFixturesDir() {
+  return path.resolve(process.cwd(), process.env.GOSSIP_FIXTURES_DIR || 'fixtures');
+}
+
+function fixturePath(kind: FixtureKind, request: unknown) {
+  const hash = createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 24);
+  return path.join(getFixturesDir(), kind, `${hash}.json`);
+}
+
+async function readFixture<T>(filePath: string): Promise<FixtureFile<T> | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Identical requests can be recorded several times; replay hands them out in recorded order
+const replayCursors = new Map<string, number>();
+const pendingWrites = new Map<string, Promise<void>>();
+
+async function appendResponse<T>(filePath: string, kind: FixtureKind, request: unknown, response: T) {
+  const previous = pendingWrites.get(filePath) || Promise.resolve();
+  const write = previous.then(async () => {
+    const fixture = (await readFixture<T>(filePath)) || { kind, request, responses: [] };
+    fixture.responses.push(response);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(fixture, null, 2));
+  });
+  pendingWrites.set(filePath, write.catch(() => undefined));
+  await write;
+}
+
+export async function withFixture<T>(kind: FixtureKind, request: unknown, run: () => Promise<T>): Promise<T> {
+  const mode = getFixtureMode();
+  if (mode === 'live') {
+    return run();
+  }
+
+  const filePath = fixturePath(kind, request);
+
+  if (mode === 'replay') {
+    const fixture = await readFixture<T>(filePath);
+    if (!fixture || fixture.responses.length === 0) {
+      throw new Error(`No recorded ${kind} fixture for this request (${path.basename(filePath)})`);
+    }
+    const cursor = replayCursors.get(filePath) || 0;
+    replayCursors.set(filePath, cursor + 1);
+    return fixture.responses[cursor % fixture.responses.length];
+  }
+
+  const response = await run();
+  await appendResponse(filePath, kind, request, response);
+  return response;
+}
+
+// Drop-in replacement for fetch on outbound content requests
+export async function fetchWithFixtures(url: string, init?: RequestInit): Promise<Response> {
+  const recorded = await withFixture<RecordedHttpResponse>('http', { url, method: init?.method || 'GET' }, async () => {
+    const response = await fetch(url, init);
+    return {
+      status: response.status,
+      contentType: response.headers.get('content-type'),
+      body: await response.text(),
+    };
+  });
+
+  return new Response(recorded.body || null, {
+    status: recorded.status,
+    headers: recorded.contentType ? { 'Content-Type': recorded.contentType } : undefined,
+  });
+}
@@ -0,0 +1,151 @@
+import { DailyChallengeInfo, DifficultyLevel } from '@/types/gossip';
+import { Locale } from '@/types/i18n';
+import { GossipGame } from '@/types/reddit';
+import { HttpError } from '@/lib/errors';
+import { DEFAULT_LOCALE } from '@/lib/i18n/locales';
+import { ProgressListener, generateRound } from '@/lib/pipeline';
+import { getDifficultySettings } from '@/lib/pipeline/difficulty';
+import { getEnabledSources } from '@/lib/sources';
+import { getCollection } from '@/lib/storage';
+import { GameSession, createGame } from './store';
+
+const DEFAULT_DAILY_TOPICS = ['Taylor Swift', 'Beyonce', 'Kardashians', 'Apple', 'Elon Musk', 'Rihanna', 'Harry Styles'];
+const DAILY_DIFFICULTY: DifficultyLevel = 'normal';
+// Retries when a generated round reuses a story already in the day's set
+const MAX_DUPLICATE_RETRIES = 3;
+
+interface DailyChallenge {
+  // The date, with the language after it for every language but the default: `${day}:${locale}`
+  id: string;
+  topic: string;
+  locale?: Locale;
+  difficulty: DifficultyLevel;
+  // Generated on first request and stored, so every player gets the same stories in the same order
+  rounds: GossipGame[];
+}
+
+interface DailyPlay {
+  // `${day}:${playerId}`
+  id: string;
+  gameId: string;
+  startedAt: string;
+}
+
+const challenges = () => getCollection<DailyChallenge>('daily-challenges');
+const plays = () => getCollection<DailyPlay>('daily-plays');
+
+const globalForDaily = globalThis as typeof globalThis & { __gossaipDailyRounds?: Map<string, Promise<GossipGame>> };
+const inFlight: Map<string, Promise<GossipGame>> = globalForDaily.__gossaipDailyRounds ??= new Map();
+
+export function getChallengeDay(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+function getDailyRoundCount() {
+  const value = Number(process.env.GOSSIP_DAILY_ROUNDS);
+  return Number.isInteger(value) && value > 0 ? value : 5;
+}
+
+// Same date, same topic: a stable hash of the day picks from the configured list
+export function getDailyTopic(day: string) {
+  const configured = (process.env.GOSSIP_DAILY_TOPICS || '')
+    .split(',')
+    .map(topic => topic.trim())
+    .filter(Boolean);
+  const topics = configured.length > 0 ? configured : DEFAULT_DAILY_TOPICS;
+  let hash = 0;
+  for (let i = 0; i < day.length; i++) {
+    hash = (Math.imul(hash, 31) + day.charCodeAt(i)) | 0;
+  }
+  return topics[Math.abs(hash) % topics.length];
+}
+
+// Each language gets its own set of the day's rounds, written in that language, on the same topic
+async function getChallenge(day: string, locale: Locale = DEFAULT_LOCALE) {
+  const id = locale === DEFAULT_LOCALE ? day : `${day}:${locale}`;
+  const collection = challenges();
+  const existing = await collection.get(id);
+  if (existing) {
+    return existing;
+  }
+  return collection.put({ id, topic: getDailyTopic(day), locale, difficulty: DAILY_DIFFICULTY, rounds: [] });
+}
+
+function realSourceUrl(round: GossipGame) {
+  return round.options.find(option => option.isReal)?.sourceUrl;
+}
+
+async function generateDailyRound(challenge: DailyChallenge, onProgress?: ProgressListener) {
+  const usedUrls = new Set(challenge.rounds.map(realSourceUrl));
+  let round: GossipGame | undefined;
+  for (let attempt = 0; attempt <= MAX_DUPLICATE_RETRIES; attempt++) {
+    round = await generateRound({
+      topic: challenge.topic,
+      sources: getEnabledSources(),
+      difficulty: getDifficultySettings(challenge.difficulty),
+      locale: challenge.locale,
+    }, onProgress);
+    if (!usedUrls.has(realSourceUrl(round))) {
+      break;
+    }
+  }
+  return round!;
+}
+
+export async function getDailyInfo(day: string, playerId?: string): Promise<DailyChallengeInfo> {
+  return {
+    day,
+    topic: getDailyTopic(day),
+    rounds: getDailyRoundCount(),
+    played: playerId ? Boolean(await plays().get(`${day}:${playerId}`)) : false,
+  };
+}
+
+// One attempt per player per day, whatever the language; the game plays the day's stored rounds in order
+export async function startDailyGame(playerId: string, locale?: Locale): Promise<GameSession> {
+  const day = getChallengeDay();
+  const playId = `${day}:${playerId}`;
+  const collection = plays();
+  if (await collection.get(playId)) {
+    throw new HttpError("You've already played today's challenge", 409);
+  }
+
+  const challenge = await getChallenge(day, locale);
+  const game = createGame({
+    topic: challenge.topic,
+    difficulty: challenge.difficulty,
+    locale: challenge.locale,
+    roundLimit: getDailyRoundCount(),
+    daily: day,
+  });
+  await collection.put({ id: playId, gameId: game.id, startedAt: new Date().toISOString() });
+  return game;
+}
+
+// Rounds are generated the first time any player reaches them; concurrent players share that generation
+export async function takeDailyRound(game: GameSession, onProgress?: ProgressListener): Promise<GossipGame> {
+  const day = game.daily!;
+  const index = game.roundsServed;
+  if (game.roundLimit !== undefined && index >= game.roundLimit) {
+    throw new HttpError('All rounds have been played', 410);
+  }
+
+  const challenge = await getChallenge(day, game.locale);
+  if (challenge.rounds[index]) {
+    return challenge.rounds[index];
+  }
+
+  const key = `${challenge.id}:${index}`;
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = (async () => {
+      // Earlier rounds are always stored first because each player asks for them in order
+      const round = await generateDailyRound(challenge, onProgress);
+      challenge.rounds[index] = round;
+      await challenges().put(challenge);
+      return round;
+    })().finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { GameSessionState, GossipGameState, GuessResult, PublicRound } from '@/types/gossip';
+import { GameAction, gameReducer, getEndReason, initialGameState } from './machine';
+import { GAME_DURATION_SECONDS } from './modes';
+
+function session(overrides: Partial<GameSessionState> = {}): GameSessionState {
+  return {
+    gameId: 'game-1',
+    topic: 'Taylor Swift',
+    difficulty: 'normal',
+    mode: 'timed',
+    score: 0,
+    points: 0,
+    attempts: 0,
+    streak: 0,
+    bestStreak: 0,
+    timeLeft: GAME_DURATION_SECONDS,
+    isGameOver: false,
+    ...overrides,
+  };
+}
+
+function round(game?: GameSessionState): PublicRound {
+  return {
+    roundId: 'round-1',
+    topic: 'Taylor Swift',
+    source: { id: 'reddit', label: 'Reddit', community: 'r/popheads' },
+    difficulty: 'normal',
+    decoyAttempts: 0,
+    stories: [{ content: 'A' }, { content: 'B' }, { content: 'C' }],
+    game,
+  };
+}
+
+function result(isCorrect: boolean, game?: GameSessionState): GuessResult {
+  return {
+    roundId: 'round-1',
+    selectedIndex: 0,
+    isCorrect,
+    correctIndex: isCorrect ? 0 : 1,
+    stories: [
+      { content: 'A', isReal: isCorrect },
+      { content: 'B', isReal: !isCorrect },
+      { content: 'C', isReal: false },
+    ],
+    game,
+  };
+}
+
+function run(state: GossipGameState, ...actions: GameAction[]) {
+  return actions.reduce(gameReducer, state);
+}
+
+// A game that has started and shows its first round
+function inQuestion(game = session()) {
+  return run(initialGameState(game.mode), { type: 'start', game }, { type: 'round', round: round() });
+}
+
+describe('initialGameState', () => {
+  it('only gives Timed games a clock', () => {
+    expect(initialGameState('timed').timeLeft).toBe(GAME_DURATION_SECONDS);
+    expect(initialGameState('endless').timeLeft).toBeNull();
+  });
+});
+
+describe('gameReducer', () => {
+  it('changes mode only during setup', () => {
+    expect(gameReducer(initialGameState('timed'), { type: 'set-mode', mode: 'fixed' }).mode).toBe('fixed');
+    const playing = inQuestion();
+    expect(gameReducer(playing, { type: 'set-mode', mode: 'fixed' })).toBe(playing);
+  });
+
+  it('starts loading with the server game', () => {
+    const state = gameReducer(initialGameState('timed'), {
+      type: 'start',
+      game: session({ mode: 'fixed', timeLeft: undefined, roundLimit: 5 }),
+    });
+    expect(state).toMatchObject({ phase: 'loading', mode: 'fixed', gameId: 'game-1', timeLeft: null, roundLimit: 5 });
+  });
+
+  it('shows a loaded round and clears the last pick', () => {
+    const state = run(inQuestion(), { type: 'select', index: 2 }, { type: 'round', round: round(session({ timeLeft: 40 })) });
+    expect(state).toMatchObject({ phase: 'question', roundId: 'round-1', selectedIndex: null, wager: null, timeLeft: 40 });
+    expect(state.stories).toHaveLength(3);
+  });
+
+  it('merges round progress', () => {
+    const state = run(
+      initialGameState(),
+      { type: 'progress', progress: { realReady: true } },
+      { type: 'progress', progress: { decoys: { ready: 1, total: 2 } } },
+    );
+    expect(state.progress).toEqual({ realReady: true, decoys: { ready: 1, total: 2 } });
+  });
+
+  it('takes one pick per round, and bets only before it', () => {
+    const picked = run(inQuestion(), { type: 'wager', wager: 2 }, { type: 'select', index: 1 });
+    expect(picked).toMatchObject({ selectedIndex: 1, wager: 2 });
+    expect(run(picked, { type: 'select', index: 2 }, { type: 'wager', wager: 3 })).toMatchObject({ selectedIndex: 1, wager: 2 });
+    expect(gameReducer(picked, { type: 'select-failed' }).selectedIndex).toBeNull();
+  });
+
+  it('reveals the answer and takes the server score', () => {
+    const state = run(
+      inQuestion(),
+      { type: 'select', index: 0 },
+      { type: 'reveal', result: result(true, session({ score: 1, points: 200, attempts: 1, streak: 1, bestStreak: 1 })) },
+    );
+    expect(state).toMatchObject({ phase: 'reveal', correctIndex: 0, results: [true], score: 1, points: 200, streak: 1, isFinalRound: false });
+  });
+
+  it('marks the final round when the server ends the game on a miss', () => {
+    const game = session({ mode: 'endless', timeLeft: undefined, attempts: 1, isGameOver: true });
+    const state = run(inQuestion(game), { type: 'select', index: 0 }, { type: 'reveal', result: result(false, game) });
+    expect(state).toMatchObject({ phase: 'reveal', isFinalRound: true, endReason: 'miss' });
+  });
+
+  it('goes back to the last reveal when the next round fails to load', () => {
+    const revealed = run(inQuestion(), { type: 'select', index: 0 }, { type: 'reveal', result: result(true) });
+    expect(run(revealed, { type: 'load' }, { type: 'load-failed' }).phase).toBe('reveal');
+    expect(run(initialGameState(), { type: 'load' }, { type: 'load-failed' }).phase).toBe('question');
+  });
+
+  describe('tick', () => {
+    it('runs the Timed clock out', () => {
+      const state = inQuestion(session({ timeLeft: 2 }));
+      expect(gameReducer(state, { type: 'tick' }).timeLeft).toBe(1);
+      expect(run(state, { type: 'tick' }, { type: 'tick' })).toMatchObject({ phase: 'over', timeLeft: 0, endReason: 'time' });
+    });
+
+    it('pauses the Timed clock while a round loads', () => {
+      const loading = gameReducer(initialGameState('timed'), { type: 'start', game: session({ timeLeft: 30 }) });
+      expect(gameReducer(loading, { type: 'tick' })).toBe(loading);
+    });
+
+    it('ends Sudden Death when the round timer runs out before a pick', () => {
+      const state = inQuestion(session({ mode: 'sudden-death', timeLeft: undefined, roundTimeLeft: 1 }));
+      expect(gameReducer(state, { type: 'tick' })).toMatchObject({ phase: 'over', endReason: 'round-timer' });
+      const picked = gameReducer(state, { type: 'select', index: 0 });
+      expect(gameReducer(picked, { type: 'tick' })).toBe(picked);
+    });
+
+    it('leaves untimed modes alone', () => {
+      const state = inQuestion(session({ mode: 'fixed', timeLeft: undefined, roundLimit: 5 }));
+      expect(gameReducer(state, { type: 'tick' })).toBe(state);
+    });
+  });
+
+  describe('sync', () => {
+    it('ends the game when the server says it is over', () => {
+      const state = gameReducer(inQuestion(), { type: 'sync', game: session({ timeLeft: 0, isGameOver: true }) });
+      expect(state).toMatchObject({ phase: 'over', endReason: 'time' });
+    });
+
+    it('lets the last reveal finish first', () => {
+      const revealed = run(inQuestion(), { type: 'select', index: 0 }, { type: 'reveal', result: result(true) });
+      expect(gameReducer(revealed, { type: 'sync', game: session({ timeLeft: 0, isGameOver: true }) }).phase).toBe('reveal');
+    });
+
+    it('keeps the end reason a finished game already has', () => {
+      const over = gameReducer(inQuestion(), { type: 'end', reason: 'miss' });
+      expect(gameReducer(over, { type: 'sync', game: session({ timeLeft: 0, isGameOver: true }) }).endReason).toBe('miss');
+    });
+  });
+
+  it('resets to setup in the same mode', () => {
+    const state = gameReducer(inQuestion(session({ mode: 'fixed', timeLeft: undefined })), { type: 'setup' });
+    expect(state).toEqual(initialGameState('fixed'));
+  });
+});
+
+describe('getEndReason', () => {
+  it('explains why the server ended a game', () => {
+    expect(getEndReason(session())).toBeNull();
+    expect(getEndReason(session({ timeLeft: 0, isGameOver: true }))).toBe('time');
+    expect(getEndReason(session({ timeLeft: undefined, roundLimit: 5, attempts: 5, isGameOver: true }))).toBe('rounds');
+    expect(getEndReason(session({ timeLeft: undefined, attempts: 3, isGameOver: true }))).toBe('miss');
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  GameEndReason,
+  GameMode,
+  GameSessionState,
+  GossipGameState,
+  GuessResult,
+  PublicRound,
+  RoundLoadingProgress,
+} from '@/types/gossip';
+import { GAME_DURATION_SECONDS, isTimedMode } from './modes';
+
+export type GameAction =
+  | { type: 'set-mode'; mode: GameMode }
+  | { type: 'start'; game: GameSessionState }
+  | { type: 'load' }
+  | { type: 'progress'; progress: Partial<RoundLoadingProgress> }
+  | { type: 'round'; round: PublicRound }
+  | { type: 'load-failed' }
+  | { type: 'wager'; wager: number | null }
+  | { type: 'select'; index: number }
+  | { type: 'select-failed' }
+  | { type: 'reveal'; result: GuessResult }
+  | { type: 'tick' }
+  | { type: 'sync'; game: GameSessionState }
+  | { type: 'end'; reason?: GameEndReason }
+  | { type: 'setup' };
+
+export function initialGameState(mode: GameMode = 'timed'): GossipGameState {
+  return {
+    phase: 'setup',
+    mode,
+    gameId: null,
+    roundId: null,
+    stories: [],
+    roundSource: null,
+    roundDifficulty: null,
+    progress: { realReady: false },
+    selectedIndex: null,
+    correctIndex: null,
+    wager: null,
+    score: 0,
+    points: 0,
+    attempts: 0,
+    streak: 0,
+    bestStreak: 0,
+    timeLeft: isTimedMode(mode) ? GAME_DURATION_SECONDS : null,
+    roundTimeLeft: null,
+    roundLimit: null,
+    results: [],
+    scoring: [],
+    isFinalRound: false,
+    endReason: null,
+  };
+}
+
+// Why the server considers a game over; the round timer shows up as a miss there
+export function getEndReason(game: GameSessionState): GameEndReason | null {
+  if (!game.isGameOver) {
+    return null;
+  }
+  if (game.timeLeft === 0) {
+    return 'time';
+  }
+  if (game.roundLimit !== undefined && game.attempts >= game.roundLimit) {
+    return 'rounds';
+  }
+  return 'miss';
+}
+
+// The server owns the score and the clocks, so take its numbers whenever it reports back
+function applyGame(state: GossipGameState, game: GameSessionState): GossipGameState {
+  return {
+    ...state,
+    mode: game.mode,
+    gameId: game.gameId,
+    score: game.score,
+    points: game.points,
+    attempts: game.attempts,
+    streak: game.streak,
+    bestStreak: game.bestStreak,
+    timeLeft: game.timeLeft ?? null,
+    roundTimeLeft: game.roundTimeLeft ?? null,
+    roundLimit: game.roundLimit ?? null,
+  };
+}
+
+function endGame(state: GossipGameState, reason: GameEndReason | null): GossipGameState {
+  return { ...state, phase: 'over', endReason: state.endReason ?? reason };
+}
+
+function tick(state: GossipGameState): GossipGameState {
+  // The game clock runs through reveals but stops on the last one; it pauses while a round loads, like the server's
+  if (state.mode === 'timed' && state.timeLeft !== null && (state.phase === 'question' || state.phase === 'reveal') && !state.isFinalRound) {
+    const timeLeft = Math.max(0, state.timeLeft - 1);
+    return timeLeft === 0 ? endGame({ ...state, timeLeft }, 'time') : { ...state, timeLeft };
+  }
+  if (state.mode === 'sudden-death' && state.roundTimeLeft !== null && state.phase === 'question' && state.selectedIndex === null) {
+    const roundTimeLeft = Math.max(0, state.roundTimeLeft - 1);
+    return roundTimeLeft === 0 ? endGame({ ...state, roundTimeLeft }, 'round-timer') : { ...state, roundTimeLeft };
+  }
+  return state;
+}
+
+export function gameReducer(state: GossipGameState, action: GameAction): GossipGameState {
+  switch (action.type) {
+    case 'set-mode':
+      return state.phase === 'setup' ? initialGameState(action.mode) : state;
+    case 'start':
+      return { ...applyGame(initialGameState(action.game.mode), action.game), phase: 'loading' };
+    case 'load':
+      return { ...state, phase: 'loading', progress: { realReady: false } };
+    case 'progress':
+      return { ...state, progress: { ...state.progress, ...action.progress } };
+    case 'round': {
+      const next: GossipGameState = {
+        ...state,
+        phase: 'question',
+        roundId: action.round.roundId,
+        stories: action.round.stories,
+        roundSource: action.round.source,
+        roundDifficulty: action.round.difficulty,
+        selectedIndex: null,
+        correctIndex: null,
+        wager: null,
+      };
+      return action.round.game ? applyGame(next, action.round.game) : next;
+    }
+    case 'load-failed':
+      // Back to the last reveal, or to an empty board the player can retry from
+      return { ...state, phase: state.correctIndex !== null ? 'reveal' : 'question' };
+    case 'wager':
+      // Bets are placed before the pick
+      return state.phase === 'question' && state.selectedIndex === null ? { ...state, wager: action.wager } : state;
+    case 'select':
+      return state.phase === 'question' && state.selectedIndex === null
+        ? { ...state, selectedIndex: action.index }
+        : state;
+    case 'select-failed':
+      return { ...state, selectedIndex: null };
+    case 'reveal': {
+      const { result } = action;
+      const next: GossipGameState = {
+        ...state,
+        phase: 'reveal',
+        stories: result.stories,
+        correctIndex: result.correctIndex,
+        results: [...state.results, result.isCorrect],
+        scoring: result.scoring ? [...state.scoring, result.scoring] : state.scoring,
+      };
+      if (!result.game) {
+        return next;
+      }
+      return {
+        ...applyGame(next, result.game),
+        isFinalRound: result.game.isGameOver,
+        endReason: getEndReason(result.game),
+      };
+    }
+    case 'tick':
+      return tick(state);
+    case 'sync': {
+      const next = applyGame(state, action.game);
+      if (state.phase === 'over') {
+        return { ...next, endReason: state.endReason ?? getEndReason(action.game) };
+      }
+      // A finished game waits on its last reveal; anywhere else it ends right away
+      return action.game.isGameOver && state.phase !== 'reveal' ? endGame(next, getEndReason(action.game)) : next;
+    }
+    case 'end':
+      return endGame(state, action.reason ?? null);
+    case 'setup':
+      return initialGameState(state.mode);
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,30 @@
+import { GameMode } from '@/types/gossip';
+
+// Shared by the server, which enforces the rules, and the client, which shows the clocks
+export const GAME_DURATION_SECONDS = 60;
+export const SUDDEN_DEATH_ROUND_SECONDS = 15;
+export const FIXED_ROUND_OPTIONS = [5, 10, 20];
+export const DEFAULT_FIXED_ROUNDS = 10;
+const MAX_FIXED_ROUNDS = 50;
+
+export const GAME_MODES: GameMode[] = ['timed', 'endless', 'fixed', 'sudden-death'];
+
+export function parseGameMode(value: unknown): GameMode | undefined {
+  return GAME_MODES.find(mode => mode === value);
+}
+
+export function isTimedMode(mode: GameMode) {
+  return mode === 'timed';
+}
+
+// Endless and Sudden Death are streak modes: the first miss ends the game
+export function endsOnMiss(mode: GameMode) {
+  return mode === 'endless' || mode === 'sudden-death';
+}
+
+export function clampRoundLimit(value: unknown) {
+  const rounds = Number(value);
+  return Number.isFinite(rounds) && rounds > 0
+    ? Math.min(MAX_FIXED_ROUNDS, Math.round(rounds))
+    : DEFAULT_FIXED_ROUNDS;
+}
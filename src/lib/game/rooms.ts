@@ -0,0 +1,306 @@
+import { randomInt, randomUUID } from 'crypto';
+import { SourceInfo } from '@/types/content';
+import { DifficultyLevel, DifficultyMode, GossipStory } from '@/types/gossip';
+import { Locale } from '@/types/i18n';
+import { RoomPhase, RoomState } from '@/types/room';
+import { DEFAULT_LOCALE } from '@/lib/i18n/locales';
+import { resolveRoundOptions } from '@/lib/pipeline/handler';
+import { takeRound, warmRoundPool } from '@/lib/pipeline/pool';
+import { GameError } from './store';
+
+export const ROOM_ROUND_SECONDS = 20;
+const DEFAULT_ROOM_ROUNDS = 5;
+const MAX_ROOM_ROUNDS = 20;
+const MAX_ROOM_PLAYERS = 12;
+// Rooms nobody has touched for this long are dropped
+const ROOM_TTL_MS = 2 * 60 * 60 * 1000;
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 5;
+
+interface RoomPlayer {
+  // Shown to everyone in the room state
+  id: string;
+  // Proves who is answering or starting rounds; only ever sent to the player it belongs to
+  token: string;
+  nickname: string;
+  score: number;
+  // Open event streams; a player can have the room open in more than one tab
+  connections: number;
+}
+
+interface RoomRound {
+  number: number;
+  source: SourceInfo;
+  difficulty: DifficultyLevel;
+  stories: GossipStory[];
+  correctIndex: number;
+  endsAt: number;
+  answers: Map<string, number>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+type RoomListener = (state: RoomState) => void;
+
+interface Room {
+  code: string;
+  topic: string;
+  difficulty: DifficultyMode;
+  locale: Locale;
+  hostId: string;
+  phase: RoomPhase;
+  totalRounds: number;
+  players: Map<string, RoomPlayer>;
+  round?: RoomRound;
+  error?: string;
+  listeners: Set<RoomListener>;
+  updatedAt: number;
+}
+
+const globalForRooms = globalThis as typeof globalThis & { __gossaipRooms?: Map<string, Room> };
+const rooms: Map<string, Room> = globalForRooms.__gossaipRooms ??= new Map();
+
+function pruneIdle(now = Date.now()) {
+  rooms.forEach((room, code) => {
+    if (room.updatedAt + ROOM_TTL_MS < now && room.listeners.size === 0) {
+      clearTimeout(room.round?.timer);
+      rooms.delete(code);
+    }
+  });
+}
+
+function createCode() {
+  let code: string;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+}
+
+export function normalizeRoomCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+function getRoom(code: string) {
+  const room = rooms.get(normalizeRoomCode(code));
+  if (!room) {
+    throw new GameError('Room not found', 404);
+  }
+  return room;
+}
+
+function getPlayer(room: Room, token: unknown) {
+  const player = typeof token === 'string'
+    ? Array.from(room.players.values()).find(candidate => candidate.token === token)
+    : undefined;
+  if (!player) {
+    throw new GameError('You are not in this room', 403);
+  }
+  return player;
+}
+
+function toRoomState(room: Room): RoomState {
+  const { round } = room;
+  const revealed = room.phase === 'reveal' || room.phase === 'finished';
+
+  return {
+    code: room.code,
+    topic: room.topic,
+    hostId: room.hostId,
+    phase: room.phase,
+    totalRounds: room.totalRounds,
+    roundSeconds: ROOM_ROUND_SECONDS,
+    error: room.error,
+    players: Array.from(room.players.values()).map(player => {
+      const selectedIndex = round?.answers.get(player.id);
+      return {
+        id: player.id,
+        nickname: player.nickname,
+        score: player.score,
+        connected: player.connections > 0,
+        answered: selectedIndex !== undefined,
+        ...(revealed && round && selectedIndex !== undefined
+          ? { selectedIndex, isCorrect: selectedIndex === round.correctIndex }
+          : {}),
+      };
+    }),
+    round: round && {
+      number: round.number,
+      source: round.source,
+      difficulty: round.difficulty,
+      stories: revealed ? round.stories : round.stories.map(story => ({ content: story.content })),
+      timeLeft: room.phase === 'question' ? Math.max(0, Math.ceil((round.endsAt - Date.now()) / 1000)) : 0,
+      correctIndex: revealed ? round.correctIndex : undefined,
+    },
+  };
+}
+
+function broadcast(room: Room) {
+  room.updatedAt = Date.now();
+  const state = toRoomState(room);
+  room.listeners.forEach(listener => {
+    try {
+      listener(state);
+    } catch (error) {
+      console.error('Error notifying room listener:', error);
+    }
+  });
+}
+
+function roundOptions(room: Room) {
+  return resolveRoundOptions({
+    topic: room.topic,
+    params: new URLSearchParams({ difficulty: room.difficulty, locale: room.locale }),
+  });
+}
+
+function addPlayer(room: Room, nickname: string) {
+  if (room.players.size >= MAX_ROOM_PLAYERS) {
+    throw new GameError('Room is full', 409);
+  }
+  const player: RoomPlayer = { id: randomUUID(), token: randomUUID(), nickname, score: 0, connections: 0 };
+  room.players.set(player.id, player);
+  return player;
+}
+
+export function createRoom({ topic, nickname, difficulty = 'normal', locale = DEFAULT_LOCALE, rounds = DEFAULT_ROOM_ROUNDS }: {
+  topic: string;
+  nickname: string;
+  difficulty?: DifficultyMode;
+  // The host's language; everyone in the room reads the same stories
+  locale?: Locale;
+  rounds?: number;
+}) {
+  pruneIdle();
+  const room: Room = {
+    code: createCode(),
+    topic,
+    difficulty,
+    locale,
+    hostId: '',
+    phase: 'lobby',
+    totalRounds: Math.min(MAX_ROOM_ROUNDS, Math.max(1, Math.round(rounds))),
+    players: new Map(),
+    listeners: new Set(),
+    updatedAt: Date.now(),
+  };
+  const host = addPlayer(room, nickname);
+  room.hostId = host.id;
+  rooms.set(room.code, room);
+
+  // Friends take a while to join, which is plenty of time to get the first round ready
+  try {
+    warmRoundPool(roundOptions(room));
+  } catch (error) {
+    console.error('Error warming round pool:', error);
+  }
+  return { playerId: host.id, token: host.token, room: toRoomState(room) };
+}
+
+export function joinRoom(code: string, nickname: string) {
+  const room = getRoom(code);
+  if (room.phase === 'finished') {
+    throw new GameError('This game has already finished', 410);
+  }
+  const player = addPlayer(room, nickname);
+  broadcast(room);
+  return { playerId: player.id, token: player.token, room: toRoomState(room) };
+}
+
+function revealRound(room: Room) {
+  const { round } = room;
+  if (room.phase !== 'question' || !round) {
+    return;
+  }
+  clearTimeout(round.timer);
+  round.answers.forEach((selectedIndex, playerId) => {
+    const player = room.players.get(playerId);
+    if (player && selectedIndex === round.correctIndex) {
+      player.score += 1;
+    }
+  });
+  room.phase = round.number >= room.totalRounds ? 'finished' : 'reveal';
+  broadcast(room);
+}
+
+// The host moves everyone on: from the lobby to the first round, or from a reveal to the next round
+export async function startNextRound(code: string, token: unknown) {
+  const room = getRoom(code);
+  if (getPlayer(room, token).id !== room.hostId) {
+    throw new GameError('Only the host can start the next round', 403);
+  }
+  if (room.phase !== 'lobby' && room.phase !== 'reveal') {
+    throw new GameError('A round is already in progress', 409);
+  }
+
+  const previousPhase = room.phase;
+  room.phase = 'loading';
+  room.error = undefined;
+  broadcast(room);
+
+  try {
+    const options = roundOptions(room);
+    const game = await takeRound(options);
+    const correctIndex = game.options.findIndex(option => option.isReal);
+    room.round = {
+      number: (room.round?.number ?? 0) + 1,
+      source: game.source!,
+      difficulty: game.difficulty ?? options.difficulty.level,
+      stories: game.options,
+      correctIndex,
+      endsAt: Date.now() + ROOM_ROUND_SECONDS * 1000,
+      answers: new Map(),
+    };
+    room.round.timer = setTimeout(() => revealRound(room), ROOM_ROUND_SECONDS * 1000);
+    room.phase = 'question';
+  } catch (error) {
+    console.error('Error generating room round:', error);
+    room.phase = previousPhase;
+    room.error = error instanceof Error ? error.message : 'Failed to generate gossip';
+  }
+  broadcast(room);
+  return toRoomState(room);
+}
+
+export function submitRoomAnswer(code: string, token: unknown, selectedIndex: number) {
+  const room = getRoom(code);
+  const player = getPlayer(room, token);
+  const { round } = room;
+  if (room.phase !== 'question' || !round) {
+    throw new GameError('There is no round to answer', 409);
+  }
+  if (!Number.isInteger(selectedIndex) || selectedIndex < 0 || selectedIndex >= round.stories.length) {
+    throw new GameError('Invalid story index', 400);
+  }
+  if (round.answers.has(player.id)) {
+    throw new GameError('You have already answered this round', 409);
+  }
+
+  round.answers.set(player.id, selectedIndex);
+  // No need to wait out the clock once everyone has picked
+  if (round.answers.size >= room.players.size) {
+    revealRound(room);
+  } else {
+    broadcast(room);
+  }
+  return toRoomState(room);
+}
+
+export function getRoomState(code: string) {
+  return toRoomState(getRoom(code));
+}
+
+// Subscribes a player's event stream, which immediately receives the current state; returns the unsubscribe function
+export function subscribeToRoom(code: string, token: unknown, listener: RoomListener) {
+  const room = getRoom(code);
+  const player = getPlayer(room, token);
+  room.listeners.add(listener);
+  player.connections += 1;
+  broadcast(room);
+
+  return () => {
+    room.listeners.delete(listener);
+    player.connections = Math.max(0, player.connections - 1);
+    broadcast(room);
+  };
+}
@@ -0,0 +1,51 @@
+import { RoundReview } from '@/types/curation';
+import { GuessResult } from '@/types/gossip';
+import { HttpError } from '@/lib/errors';
+import { getCollection } from '@/lib/storage';
+import { StoredRound, isRoundInPlay } from './store';
+
+// Every served round is kept, answer included, so it can be replayed from its permalink and reviewed by curators
+export type SavedRound = Omit<StoredRound, 'gameId' | 'selectedIndex' | 'deadline'> & {
+  review?: RoundReview;
+  editedAt?: number;
+};
+
+const savedRounds = () => getCollection<SavedRound>('rounds');
+
+export async function saveRound({ id, topic, source, difficulty, decoyAttempts, stories, correctIndex, createdAt, bankId, generation }: StoredRound) {
+  return savedRounds().put({ id, topic, source, difficulty, decoyAttempts, stories, correctIndex, createdAt, bankId, generation });
+}
+
+export async function listSavedRounds() {
+  return savedRounds().list();
+}
+
+export async function updateSavedRound(round: SavedRound) {
+  return savedRounds().put(round);
+}
+
+export async function getSavedRound(id: string) {
+  const round = await savedRounds().get(id);
+  if (!round) {
+    throw new HttpError('Round not found', 404);
+  }
+  return round;
+}
+
+// Permalink guesses aren't tied to a game, so any number of visitors can check their pick
+export async function checkSavedGuess(id: string, selectedIndex: number): Promise<GuessResult> {
+  if (isRoundInPlay(id)) {
+    throw new HttpError('This round is still being played', 409);
+  }
+  const round = await getSavedRound(id);
+  if (!Number.isInteger(selectedIndex) || selectedIndex < 0 || selectedIndex >= round.stories.length) {
+    throw new HttpError('Invalid story index', 400);
+  }
+  return {
+    roundId: round.id,
+    selectedIndex,
+    isCorrect: selectedIndex === round.correctIndex,
+    correctIndex: round.correctIndex,
+    stories: round.stories,
+  };
+}
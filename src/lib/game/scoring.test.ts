@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { HttpError } from '@/lib/errors';
+import { parseWager, scoreGuess } from './scoring';
+
+describe('parseWager', () => {
+  it('treats a missing or zero wager as no bet', () => {
+    expect(parseWager(undefined)).toBeUndefined();
+    expect(parseWager(null)).toBeUndefined();
+    expect(parseWager(0)).toBeUndefined();
+  });
+
+  it('accepts the wager options, as numbers or strings', () => {
+    expect(parseWager(1)).toBe(1);
+    expect(parseWager('3')).toBe(3);
+  });
+
+  it('rejects anything else with a 400', () => {
+    expect(() => parseWager(4)).toThrow(HttpError);
+    expect(() => parseWager('all in')).toThrow(expect.objectContaining({ status: 400 }));
+  });
+});
+
+describe('scoreGuess', () => {
+  it('scales the base with the number of stories', () => {
+    const three = scoreGuess({ isCorrect: true, storyCount: 3, answerMs: 60_000, streak: 0 });
+    const five = scoreGuess({ isCorrect: true, storyCount: 5, answerMs: 60_000, streak: 0 });
+    expect(three).toMatchObject({ base: 150, speedBonus: 0, streakBonus: 0, wagerPoints: 0, points: 150 });
+    expect(five.base).toBe(250);
+  });
+
+  it('adds up to half the base for speed, fading over 20 seconds', () => {
+    expect(scoreGuess({ isCorrect: true, storyCount: 3, answerMs: 0, streak: 0 }).speedBonus).toBe(75);
+    expect(scoreGuess({ isCorrect: true, storyCount: 3, answerMs: 10_000, streak: 0 }).speedBonus).toBe(38);
+    expect(scoreGuess({ isCorrect: true, storyCount: 3, answerMs: 20_000, streak: 0 }).speedBonus).toBe(0);
+  });
+
+  it('multiplies by the streak, capped at double', () => {
+    const second = scoreGuess({ isCorrect: true, storyCount: 3, answerMs: 0, streak: 1 });
+    expect(second).toMatchObject({ streakMultiplier: 1.25, streakBonus: 56, points: 281 });
+    expect(scoreGuess({ isCorrect: true, storyCount: 3, answerMs: 0, streak: 10 }).streakMultiplier).toBe(2);
+  });
+
+  it('wins or loses the wager', () => {
+    expect(scoreGuess({ isCorrect: true, storyCount: 3, answerMs: 20_000, streak: 0, wager: 2 }))
+      .toMatchObject({ wager: 2, wagerPoints: 150, points: 300 });
+    expect(scoreGuess({ isCorrect: false, storyCount: 3, answerMs: 0, streak: 4, wager: 2 }))
+      .toMatchObject({ base: 0, speedBonus: 0, streakMultiplier: 1, streakBonus: 0, wagerPoints: -150, points: -150 });
+  });
+
+  it('scores nothing for a miss without a bet', () => {
+    expect(scoreGuess({ isCorrect: false, storyCount: 3, answerMs: 0, streak: 2 })).toMatchObject({ wager: 0, points: 0 });
+  });
+
+  it('reports the answer time to a tenth of a second', () => {
+    expect(scoreGuess({ isCorrect: true, storyCount: 3, answerMs: 4_349, streak: 0 }).answerSeconds).toBe(4.3);
+  });
+});
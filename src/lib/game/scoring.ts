@@ -0,0 +1,54 @@
+import { ScoreBreakdown } from '@/types/gossip';
+import { HttpError } from '@/lib/errors';
+
+// Scaled by the number of stories, so a blind guess is worth the same on every difficulty
+const POINTS_PER_STORY = 50;
+// An instant pick earns half the base on top; the bonus fades to nothing over this window
+const SPEED_WINDOW_SECONDS = 20;
+const MAX_SPEED_BONUS = 0.5;
+// Every correct guess in a row adds to the multiplier, up to double points
+const STREAK_STEP = 0.25;
+const MAX_STREAK_MULTIPLIER = 2;
+// One wagered point wins or loses this much per story in the round
+const WAGER_POINTS_PER_STORY = 25;
+
+export const WAGER_OPTIONS = [1, 2, 3];
+
+export function parseWager(value: unknown) {
+  if (value === undefined || value === null || value === 0) {
+    return undefined;
+  }
+  const wager = Number(value);
+  if (!WAGER_OPTIONS.includes(wager)) {
+    throw new HttpError(`Wager must be one of ${WAGER_OPTIONS.join(', ')}`, 400);
+  }
+  return wager;
+}
+
+// `streak` is the number of correct guesses in a row before this one
+export function scoreGuess({ isCorrect, storyCount, answerMs, streak, wager }: {
+  isCorrect: boolean;
+  storyCount: number;
+  answerMs: number;
+  streak: number;
+  wager?: number;
+}): ScoreBreakdown {
+  const base = isCorrect ? POINTS_PER_STORY * storyCount : 0;
+  const speedRatio = Math.max(0, 1 - answerMs / (SPEED_WINDOW_SECONDS * 1000));
+  const speedBonus = Math.round(base * MAX_SPEED_BONUS * speedRatio);
+  const streakMultiplier = isCorrect ? Math.min(MAX_STREAK_MULTIPLIER, 1 + STREAK_STEP * streak) : 1;
+  const streakBonus = Math.round((base + speedBonus) * (streakMultiplier - 1));
+  const stake = (wager ?? 0) * WAGER_POINTS_PER_STORY * storyCount;
+  const wagerPoints = isCorrect ? stake : -stake;
+
+  return {
+    base,
+    speedBonus,
+    streakMultiplier,
+    streakBonus,
+    wager: wager ?? 0,
+    wagerPoints,
+    points: base + speedBonus + streakBonus + wagerPoints,
+    answerSeconds: Math.round(answerMs / 100) / 10,
+  };
+}
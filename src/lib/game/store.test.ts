@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createGame, createRound, pauseGame, resumeGame, submitGuess } from './store';
+
+function playRound(gameId: string) {
+  return createRound({
+    topic: 'Taylor Swift',
+    source: { id: 'reddit', label: 'Reddit' },
+    difficulty: 'normal',
+    decoyAttempts: 0,
+    stories: [
+      { content: 'The real story.', isReal: true },
+      { content: 'A made-up story.', isReal: false },
+    ],
+    gameId,
+  });
+}
+
+describe('submitGuess', () => {
+  it('scores a guess on the current round', () => {
+    const game = createGame({ topic: 'Taylor Swift' });
+    const round = playRound(game.id);
+    expect(submitGuess(round.id, 0)).toMatchObject({ isCorrect: true, game: { score: 1, attempts: 1 } });
+  });
+
+  it('refuses guesses while the next round is generating', () => {
+    const game = createGame({ topic: 'Taylor Swift' });
+    const round = playRound(game.id);
+
+    pauseGame(game);
+    expect(() => submitGuess(round.id, 0)).toThrow(expect.objectContaining({ status: 409 }));
+    expect(round.selectedIndex).toBeUndefined();
+
+    resumeGame(game);
+    expect(submitGuess(round.id, 0).isCorrect).toBe(true);
+  });
+});
@@ -0,0 +1,395 @@
+import { randomUUID } from 'crypto';
+import { SourceId, SourceInfo, SubredditFilter } from '@/types/content';
+import { Locale } from '@/types/i18n';
+import {
+  DifficultyLevel,
+  DifficultyMode,
+  GameMode,
+  GameSessionState,
+  GossipStory,
+  GuessResult,
+  PublicRound,
+  RoundGeneration,
+  ScoreBreakdown,
+} from '@/types/gossip';
+import { HttpError } from '@/lib/errors';
+import { GAME_DURATION_SECONDS, SUDDEN_DEATH_ROUND_SECONDS, endsOnMiss, isTimedMode } from './modes';
+import { scoreGuess } from './scoring';
+
+// Rounds and games are only kept long enough to be played out
+const STORE_TTL_MS = 30 * 60 * 1000;
+const RECENT_RESULTS_LIMIT = 5;
+// Upper bound on how long one round generation may hold the clock
+const MAX_PAUSE_MS = 30 * 1000;
+// Leeway on Sudden Death round deadlines for the guess request's trip to the server
+const ROUND_DEADLINE_GRACE_MS = 1000;
+
+export class GameError extends HttpError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'GameError';
+  }
+}
+
+export interface GameSession {
+  id: string;
+  topic: string;
+  difficulty: DifficultyMode;
+  mode: GameMode;
+  sources: SourceId[];
+  // Subreddits the player limited the game to, or left out
+  subreddits?: SubredditFilter;
+  // Language the game's stories are written in
+  locale?: Locale;
+  score: number;
+  points: number;
+  attempts: number;
+  streak: number;
+  bestStreak: number;
+  // Most recent guesses first, used for adaptive difficulty
+  recentResults: boolean[];
+  startedAt: number;
+  updatedAt: number;
+  // Only Timed games have a game clock
+  endsAt?: number;
+  pendingRoundId?: string;
+  roundsServed: number;
+  // Games with a fixed set of rounds end once every round is answered or skipped
+  roundLimit?: number;
+  // Challenge date for Daily Challenge games, which play the stored rounds of that day in order
+  daily?: string;
+  // Curated games only play rounds from the approved round bank, each at most once
+  approvedOnly?: boolean;
+  bankRounds?: string[];
+  // The clock stands still while a round is being generated for the game
+  pausedAt?: number;
+  pauseCount: number;
+}
+
+export interface StoredRound {
+  id: string;
+  gameId?: string;
+  topic: string;
+  source: SourceInfo;
+  difficulty: DifficultyLevel;
+  decoyAttempts: number;
+  stories: GossipStory[];
+  correctIndex: number;
+  createdAt: number;
+  selectedIndex?: number;
+  // Sudden Death rounds must be answered by this time
+  deadline?: number;
+  // The approved round bank entry this round was served from
+  bankId?: string;
+  generation?: RoundGeneration;
+}
+
+interface GameStore {
+  games: Map<string, GameSession>;
+  rounds: Map<string, StoredRound>;
+}
+
+// Keep the store on globalThis so dev-server reloads don't drop live games
+const globalForStore = globalThis as typeof globalThis & { __gossaipGameStore?: GameStore };
+const store: GameStore = globalForStore.__gossaipGameStore ??= {
+  games: new Map(),
+  rounds: new Map(),
+};
+
+function pruneExpired(now = Date.now()) {
+  store.games.forEach((game, id) => {
+    if (game.updatedAt + STORE_TTL_MS < now) {
+      store.games.delete(id);
+    }
+  });
+  store.rounds.forEach((round, id) => {
+    if (round.createdAt + STORE_TTL_MS < now) {
+      store.rounds.delete(id);
+    }
+  });
+}
+
+export function getTimeLeft(game: GameSession, now = Date.now()) {
+  if (game.endsAt === undefined) {
+    return undefined;
+  }
+  return Math.max(0, Math.ceil((game.endsAt - (game.pausedAt ?? now)) / 1000));
+}
+
+function getPendingRound(game: GameSession) {
+  return game.pendingRoundId ? store.rounds.get(game.pendingRoundId) : undefined;
+}
+
+function getRoundTimeLeft(game: GameSession, now = Date.now()) {
+  const deadline = getPendingRound(game)?.deadline;
+  return deadline === undefined ? undefined : Math.max(0, Math.ceil((deadline - now) / 1000));
+}
+
+function allRoundsPlayed(game: GameSession) {
+  return game.roundLimit !== undefined && game.attempts >= game.roundLimit;
+}
+
+function hasMissed(game: GameSession) {
+  return endsOnMiss(game.mode) && game.attempts > game.score;
+}
+
+export function isGameOver(game: GameSession) {
+  return getTimeLeft(game) === 0 || allRoundsPlayed(game) || hasMissed(game);
+}
+
+export function toGameState(game: GameSession): GameSessionState {
+  return {
+    gameId: game.id,
+    topic: game.topic,
+    difficulty: game.difficulty,
+    mode: game.mode,
+    score: game.score,
+    points: game.points,
+    attempts: game.attempts,
+    streak: game.streak,
+    bestStreak: game.bestStreak,
+    timeLeft: getTimeLeft(game),
+    roundTimeLeft: getRoundTimeLeft(game),
+    isGameOver: isGameOver(game),
+    daily: game.daily,
+    roundLimit: game.roundLimit,
+  };
+}
+
+function recordResult(game: GameSession, isCorrect: boolean, points = 0) {
+  game.attempts += 1;
+  game.points += points;
+  game.updatedAt = Date.now();
+  if (isCorrect) {
+    game.score += 1;
+    game.streak += 1;
+    game.bestStreak = Math.max(game.bestStreak, game.streak);
+  } else {
+    game.streak = 0;
+  }
+  game.recentResults = [isCorrect, ...game.recentResults].slice(0, RECENT_RESULTS_LIMIT);
+}
+
+// Sudden Death rounds left unanswered past their deadline count as a miss, settled whenever the game is read
+function settleRoundDeadline(game: GameSession, now = Date.now()) {
+  const round = getPendingRound(game);
+  if (round?.deadline !== undefined && round.selectedIndex === undefined && round.deadline + ROUND_DEADLINE_GRACE_MS < now) {
+    recordResult(game, false);
+    game.pendingRoundId = undefined;
+  }
+}
+
+export function createGame({ topic, difficulty = 'normal', mode = 'timed', sources = [], subreddits, locale, roundLimit, daily, approvedOnly }: {
+  topic: string;
+  difficulty?: DifficultyMode;
+  mode?: GameMode;
+  locale?: Locale;
+  sources?: SourceId[];
+  subreddits?: SubredditFilter;
+  roundLimit?: number;
+  daily?: string;
+  approvedOnly?: boolean;
+}): GameSession {
+  pruneExpired();
+  const now = Date.now();
+  const game: GameSession = {
+    id: randomUUID(),
+    topic,
+    difficulty,
+    mode,
+    sources,
+    subreddits,
+    locale,
+    score: 0,
+    points: 0,
+    attempts: 0,
+    streak: 0,
+    bestStreak: 0,
+    recentResults: [],
+    roundsServed: 0,
+    roundLimit,
+    daily,
+    approvedOnly,
+    pauseCount: 0,
+    startedAt: now,
+    updatedAt: now,
+    endsAt: isTimedMode(mode) ? now + GAME_DURATION_SECONDS * 1000 : undefined,
+  };
+  store.games.set(game.id, game);
+  return game;
+}
+
+export function getGame(gameId: string) {
+  const game = store.games.get(gameId);
+  if (!game) {
+    throw new GameError('Game not found', 404);
+  }
+  settleRoundDeadline(game);
+  return game;
+}
+
+export function getActiveGame(gameId: string) {
+  const game = getGame(gameId);
+  if (getTimeLeft(game) === 0) {
+    throw new GameError('Time is up', 410);
+  }
+  if (allRoundsPlayed(game)) {
+    throw new GameError('All rounds have been played', 410);
+  }
+  if (hasMissed(game)) {
+    throw new GameError('The streak is over', 410);
+  }
+  return game;
+}
+
+export function pauseGame(game: GameSession) {
+  if (game.pauseCount === 0) {
+    game.pausedAt = Date.now();
+  }
+  game.pauseCount += 1;
+}
+
+export function resumeGame(game: GameSession) {
+  game.pauseCount = Math.max(0, game.pauseCount - 1);
+  if (game.pauseCount === 0 && game.pausedAt !== undefined) {
+    if (game.endsAt !== undefined) {
+      game.endsAt += Math.min(Date.now() - game.pausedAt, MAX_PAUSE_MS);
+    }
+    game.pausedAt = undefined;
+  }
+}
+
+export function createRound({ topic, source, difficulty, decoyAttempts, stories, gameId, bankId, generation }: {
+  topic: string;
+  source: SourceInfo;
+  difficulty: DifficultyLevel;
+  decoyAttempts: number;
+  stories: GossipStory[];
+  gameId?: string;
+  bankId?: string;
+  generation?: RoundGeneration;
+}): StoredRound {
+  const correctIndex = stories.findIndex(story => story.isReal);
+  if (correctIndex === -1) {
+    throw new Error('Round has no real story');
+  }
+
+  const round: StoredRound = {
+    id: randomUUID(),
+    gameId,
+    topic,
+    source,
+    difficulty,
+    decoyAttempts,
+    stories,
+    correctIndex,
+    createdAt: Date.now(),
+    bankId,
+    generation,
+  };
+
+  if (gameId) {
+    const game = getActiveGame(gameId);
+    // Skipping an unanswered round counts as a miss, so players can't reroll hard rounds
+    const pending = getPendingRound(game);
+    if (pending && pending.selectedIndex === undefined) {
+      recordResult(game, false);
+      if (hasMissed(game)) {
+        throw new GameError('The streak is over', 410);
+      }
+    }
+    game.pendingRoundId = round.id;
+    game.roundsServed += 1;
+    if (bankId) {
+      game.bankRounds = [...(game.bankRounds ?? []), bankId];
+    }
+    game.updatedAt = Date.now();
+    // The countdown starts once the round is ready, so generation time never counts against it
+    if (game.mode === 'sudden-death') {
+      round.deadline = Date.now() + SUDDEN_DEATH_ROUND_SECONDS * 1000;
+    }
+  }
+
+  store.rounds.set(round.id, round);
+  return round;
+}
+
+export function toPublicRound(round: StoredRound): PublicRound {
+  return {
+    roundId: round.id,
+    topic: round.topic,
+    source: round.source,
+    difficulty: round.difficulty,
+    decoyAttempts: round.decoyAttempts,
+    stories: round.stories.map(story => ({ content: story.content })),
+  };
+}
+
+export function getRound(roundId: string) {
+  const round = store.rounds.get(roundId);
+  if (!round) {
+    throw new GameError('Round not found', 404);
+  }
+  return round;
+}
+
+// A game's current round keeps its answer secret until the player settles it
+export function isRoundInPlay(roundId: string) {
+  const round = store.rounds.get(roundId);
+  if (!round?.gameId || round.selectedIndex !== undefined) {
+    return false;
+  }
+  const game = store.games.get(round.gameId);
+  if (!game) {
+    return false;
+  }
+  settleRoundDeadline(game);
+  return game.pendingRoundId === round.id && !isGameOver(game);
+}
+
+export function submitGuess(roundId: string, selectedIndex: number, wager?: number): GuessResult {
+  const round = getRound(roundId);
+  if (!Number.isInteger(selectedIndex) || selectedIndex < 0 || selectedIndex >= round.stories.length) {
+    throw new GameError('Invalid story index', 400);
+  }
+  if (round.selectedIndex !== undefined) {
+    throw new GameError('Round has already been answered', 409);
+  }
+
+  const game = round.gameId ? getActiveGame(round.gameId) : undefined;
+  if (game && game.pendingRoundId !== round.id) {
+    throw new GameError('Round is no longer active', 409);
+  }
+  // The clock stands still while the next round generates, so that time can't go into thinking about this one
+  if (game?.pausedAt !== undefined) {
+    throw new GameError('The next round is already on its way', 409);
+  }
+
+  round.selectedIndex = selectedIndex;
+  const isCorrect = selectedIndex === round.correctIndex;
+
+  let scoring: ScoreBreakdown | undefined;
+  if (game) {
+    scoring = scoreGuess({
+      isCorrect,
+      storyCount: round.stories.length,
+      answerMs: Date.now() - round.createdAt,
+      streak: game.streak,
+      wager,
+    });
+    // A lost wager can take the total down to zero but not below
+    scoring.points = Math.max(-game.points, scoring.points);
+    recordResult(game, isCorrect, scoring.points);
+    game.pendingRoundId = undefined;
+  }
+
+  return {
+    roundId: round.id,
+    selectedIndex,
+    isCorrect,
+    correctIndex: round.correctIndex,
+    stories: round.stories,
+    game: game ? toGameState(game) : undefined,
+    scoring,
+  };
+}
@@ -0,0 +1,29 @@
+import { Locale } from '@/types/i18n';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// `english` goes into prompts, `native` into the language switcher
+export const LOCALES: { locale: Locale; english: string; native: string }[] = [
+  { locale: 'en', english: 'English', native: 'English' },
+  { locale: 'es', english: 'Spanish', native: 'Español' },
+  { locale: 'pt', english: 'Portuguese', native: 'Português' },
+];
+
+export function parseLocale(value: unknown): Locale | undefined {
+  return LOCALES.find(option => option.locale === value)?.locale;
+}
+
+export function getLanguageName(locale: Locale) {
+  return LOCALES.find(option => option.locale === locale)?.english ?? 'English';
+}
+
+// First supported language in the browser's preference list: "pt-BR" and "es-419" match on the base language
+export function matchLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const locale = parseLocale(language.toLowerCase().split('-')[0]);
+    if (locale) {
+      return locale;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
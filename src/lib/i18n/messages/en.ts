@@ -0,0 +1,219 @@
+// The source catalog: every other locale has to translate each of these keys
+export const en = {
+  'language.label': 'Language',
+
+  'home.tagline': 'Your AI-powered gossip companion that knows all the juicy details',
+  'home.title': 'Ready to Spill the Tea?',
+  'home.intro': "From celebrity scandals to tech world drama, I've got all the hot gossip ready for you!",
+  'home.placeholder': 'Celebrity drama? Tech world tea? You name it!',
+  'home.submit': "Let's Gossip! 💅",
+  'home.trending': '🔥 Trending right now',
+  'home.trendingPost': '{count} popular post',
+  'home.trendingPosts': '{count} popular posts',
+  'home.daily': "🗓️ Or play today's Daily Challenge",
+  'home.rooms': '🎉 Play with friends in a Gossip Party',
+  'home.stats': '📊 Check your gossip stats',
+  'home.feature.trending.title': 'Trending Topics',
+  'home.feature.trending.desc': 'Stay updated with the hottest discussions',
+  'home.feature.insights.title': 'Deep Insights',
+  'home.feature.insights.desc': 'Get the inside scoop on any subject',
+  'home.feature.quizzes.title': 'Fun Quizzes',
+  'home.feature.quizzes.desc': 'Test your gossip knowledge',
+
+  'difficulty.easy': 'Easy 🌱',
+  'difficulty.normal': 'Normal ☕️',
+  'difficulty.hard': 'Hard 🔥',
+  'difficulty.adaptive': 'Adaptive 🎯',
+
+  'mode.timed.label': 'Timed ⏱️',
+  'mode.timed.description': 'Spot as many gossips as you can in {seconds} seconds!',
+  'mode.timed.start': 'Start 1-Minute Tea Time! ☕️',
+  'mode.endless.label': 'Endless 🔥',
+  'mode.endless.description': 'No clock: keep your streak going until the first wrong pick!',
+  'mode.endless.start': 'Start the Streak! 🔥',
+  'mode.fixed.label': 'Fixed Rounds 🎯',
+  'mode.fixed.description': 'A set number of rounds and no clock. Take your time!',
+  'mode.fixed.start': 'Start the Rounds! 🎯',
+  'mode.sudden-death.label': 'Sudden Death 💀',
+  'mode.sudden-death.description': '{seconds} seconds per round, and one miss ends it all!',
+  'mode.sudden-death.start': 'Face Sudden Death! 💀',
+
+  'setup.title': 'Gossip Game',
+  'setup.placeholder': "What's the tea about...?",
+  'setup.rounds': 'Rounds:',
+  'setup.subreddits': 'Only these subreddits (optional), e.g. popculturechat, -teenagers',
+  'setup.instructions': 'Instructions:',
+  'setup.enterTopic': 'Enter any celebrity or trending topic',
+  'setup.oneReal': 'One real story hidden among AI-made ones',
+  'setup.approvedOnly': '✅ Curated rounds only',
+
+  'daily.title': 'Daily Challenge',
+  'daily.topic': "Today's tea: {topic} ☕️",
+  'daily.rules': '{rounds} rounds, the same for everyone. One attempt per day, so make it count!',
+  'daily.played': 'Already played today. Come back tomorrow! 🗓️',
+  'daily.start': "Start Today's Challenge! 🎯",
+  'daily.loading': "Loading today's challenge...",
+  'daily.comeBack': 'Come back tomorrow for a new challenge! 🗓️',
+
+  'game.score': 'Score: {points} pts',
+  'game.round': 'Round {round}/{total}',
+  'game.streak': '🔥 Streak {streak}',
+  'game.timeHurry': "⏰ Hurry up! Time's almost up! ⚡",
+  'game.timeTicking': '⌛ Clock is ticking... Choose wisely! 🤔',
+  'game.timeRelaxed': '🕒 Take your time to spot the truth! 🔍',
+  'game.roundTimer': '💀 {seconds}s to pick!',
+  'game.noClock': '🧘 No clock, take your time',
+  'game.loading': 'Loading gossip...',
+  'game.sourceFound': '✅ Found a story on {source}',
+  'game.sourceSearching': '⏳ Finding a hot story',
+  'game.realReady': '✅ Real gossip written',
+  'game.realWriting': '⏳ Writing the real gossip',
+  'game.decoys': 'Cooking up fakes',
+  'game.timerPaused': '⏸️ Timer paused until the round is ready',
+  'game.countdownPaused': '⏸️ The countdown starts once the stories are ready',
+  'game.intro': 'Time to test your gossip radar! 🔍',
+  'game.introRules': 'Only one of these stories is real, the rest are AI-generated.',
+  'game.introQuestion': 'Can you spot the real one?',
+  'game.retry': 'Try again 🔄',
+  'game.topic': 'Topic: {topic}',
+  'game.source': 'Source: {source}',
+  'game.difficulty': 'Difficulty: {difficulty}',
+  'game.bet': '🎲 Confidence bet:',
+  'game.noBet': 'No bet',
+  'game.real': '✨ This was the real gossip!',
+  'game.viewOriginal': 'View original',
+  'game.fake': '🎭 This was the AI-generated story!',
+  'game.whatWasReal': '🔎 What was real: ',
+  'game.whatGaveItAway': '🕵️ What gave it away: ',
+  'game.seeResults': 'See Results 🏁',
+  'game.next': 'Next Gossip!',
+  'game.stories': 'Stories',
+  'game.storyNumber': 'Story {number}',
+  'game.keyboardHint': 'Press 1–{count} to pick a story',
+  'game.keyboardNextHint': 'Press Enter for the next one',
+  'game.roundTimerLow': 'Only {seconds} seconds left to pick!',
+  'game.announceCorrect': 'Correct! Story {number} was the real gossip.',
+  'game.announceWrong': 'Not quite. Story {number} was the real gossip.',
+  'game.shareRound': 'Share this round 🔗',
+  'game.shareRoundTitle': 'Can you spot the real {topic} gossip?',
+  'game.linkCopied': 'Link copied! 📋',
+  'game.copied': 'Copied to clipboard! 📋',
+  'game.startFailed': 'Failed to start game',
+  'game.fetchFailed': 'Failed to fetch gossip',
+  'game.connectionLost': 'Lost the connection while fetching gossip',
+  'game.guessFailed': 'Failed to submit guess',
+
+  'over.title': 'Game Over!',
+  'over.master': '🎭 👑 You are the ULTIMATE GOSSIP MASTER! 👑 🎭\nYour ability to spot real tea is legendary! 🫖✨',
+  'over.detective': "🌟 Impressive Gossip Detective! 🔍\nYou've got a natural talent for spotting the truth! 💫",
+  'over.apprentice': '🎯 Not Bad, Gossip Apprentice! 📚\nKeep practicing your rumor radar! 🎪',
+  'over.circus': '🎪 Welcome to the Gossip Circus! 🎪\nTime to sharpen those truth-spotting skills! 🎭',
+  'over.share': 'Share results 📣',
+  'over.stats': "📊 See how you're improving",
+  'over.playAgain': 'Play Again 🎭',
+  'over.changeMode': 'Change mode',
+
+  'summary.end.time': "⏰ Time's up!",
+  'summary.end.round-timer': '💀 The round timer ran out',
+  'summary.end.miss': '❌ One wrong pick and the streak is over',
+  'summary.end.rounds': '🏁 Every round played',
+  'summary.points': '⭐ {points} pts',
+  'summary.base': 'Base',
+  'summary.speed': 'Speed',
+  'summary.streaks': 'Streaks',
+  'summary.bets': 'Bets',
+  'summary.bestStreak': 'Best Streak',
+  'summary.roundsPlayed': 'Rounds Played',
+  'summary.spotted': 'Real Stories Spotted',
+  'summary.accuracy': 'Accuracy',
+  'summary.survived': 'Rounds Survived',
+  'summary.fastest': 'Fastest Pick',
+  'summary.average': 'Average Pick',
+  'summary.correct': 'Correct Guesses',
+  'summary.attempts': 'Total Attempts',
+
+  'score.base': '{points} base',
+  'score.speed': '{points} speed ({seconds}s)',
+  'score.streak': '{points} streak ×{multiplier}',
+  'score.bet': '{points} bet ×{wager}',
+  'score.missed': 'Missed',
+  'score.points': '{points} pts',
+
+  'leaderboard.all': 'All time 🏆',
+  'leaderboard.daily': 'Today 📅',
+  'leaderboard.topic': 'This topic 🔥',
+  'leaderboard.challenge': 'Daily Challenge 📆',
+  'leaderboard.challengeRank': "🎉 You're #{rank} in today's challenge",
+  'leaderboard.ranks': "🎉 You're #{all} all time, #{daily} today and #{topicRank} for “{topic}”",
+  'leaderboard.alias': 'Your gossip alias',
+  'leaderboard.saving': 'Saving...',
+  'leaderboard.submit': 'Submit score',
+  'leaderboard.submitFailed': 'Failed to submit score',
+  'leaderboard.empty': 'No scores yet. Be the first!',
+  'leaderboard.entry': '{points} pts · {accuracy}%',
+  'leaderboard.yourRank': 'Your game is #{rank} on this board',
+
+  'report.open': '🚩 Report this round',
+  'report.label': "What's wrong with it?",
+  'report.reason.wrong-answer': 'The wrong story is marked real',
+  'report.reason.broken-story': 'A story is broken or nonsense',
+  'report.reason.off-topic': "It isn't about the topic",
+  'report.reason.offensive': "It's offensive",
+  'report.reason.other': 'Something else',
+  'report.note': 'Anything else a curator should know? (optional)',
+  'report.send': 'Send report',
+  'report.cancel': 'Cancel',
+  'report.thanks': 'Thanks! A curator will take a look. 🙏',
+  'report.failed': 'Failed to report round',
+
+  'room.title': 'Gossip Party 🎉',
+  'room.host': 'Host a room 🏠',
+  'room.code': 'Room code',
+  'room.join': 'Join with a code 🔑',
+  'room.waiting': 'Waiting for friends... share the code {code} to let them in!',
+  'room.rules': 'Everyone sees the same stories and has {seconds} seconds to pick the real one.',
+  'room.loading': 'Brewing the next round... ☕️',
+  'room.real': '✨ Real gossip',
+  'room.fake': '🎭 AI-generated',
+  'room.finalScores': '🏆 Final scores',
+  'room.scoreboard': 'Scoreboard',
+  'room.start': 'Start the game! 🚀',
+  'room.next': 'Next round!',
+  'room.waitingHost': 'Waiting for the host to start the next round...',
+  'room.leave': 'Leave room 👋',
+  'room.failed': 'Something went wrong',
+
+  'shared.title': 'Which {topic} gossip is real? 🤔',
+  'shared.correct': '🎯 You spotted the real tea!',
+  'shared.wrong': '🎭 Fooled you! That one was made up.',
+  'shared.playFull': 'Play a full game about {topic} ☕️',
+  'shared.keyboardPlayHint': 'Press Enter to play a full game',
+
+  'stats.title': 'Your Gossip Stats',
+  'stats.loading': 'Loading...',
+  'stats.empty': 'No games yet. Play a round and your stats will show up here! ☕️',
+  'stats.games': 'Games Played',
+  'stats.totalPoints': 'Total Points',
+  'stats.bestGame': 'Best Game',
+  'stats.history': 'Accuracy over time',
+  'stats.historyLabel': 'Accuracy per game',
+  'stats.historyEmpty': 'Play a couple more games to see your trend 📈',
+  'stats.byTopic': 'By topic',
+  'stats.byDifficulty': 'By difficulty',
+  'stats.bySubreddit': 'By subreddit',
+  'stats.noGuesses': 'No guesses yet',
+  'stats.noReddit': 'No Reddit rounds yet',
+  'stats.playAgain': '🎭 Play another game',
+  'stats.sync.title': 'Keep your stats across devices',
+  'stats.sync.intro': 'Stats live in this browser under an anonymous id. Turn on sync to back them up, then enter the sync code on another device. Keep it private: anyone with the code can change your stats.',
+  'stats.sync.start': 'Sync my stats ☁️',
+  'stats.sync.stop': 'Turn off sync',
+  'stats.sync.placeholder': 'Sync code from another device',
+  'stats.sync.restore': 'Restore',
+  'stats.sync.off': 'Sync is off. Your stats stay in this browser.',
+  'stats.sync.done': 'Synced! ☁️',
+  'stats.sync.restored': 'Profile restored! 🎉',
+  'stats.sync.failed': 'Failed to sync profile',
+};
+
+export type MessageKey = keyof typeof en;
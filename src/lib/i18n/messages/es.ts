@@ -0,0 +1,218 @@
+import { MessageKey } from './en';
+
+export const es: Record<MessageKey, string> = {
+  'language.label': 'Idioma',
+
+  'home.tagline': 'Tu compañero de chismes con IA que conoce todos los detalles jugosos',
+  'home.title': '¿Listo para soltar el chisme?',
+  'home.intro': '¡De escándalos de famosos a dramas del mundo tech, tengo todo el chisme caliente listo para ti!',
+  'home.placeholder': '¿Drama de famosos? ¿Chisme tech? ¡Tú eliges!',
+  'home.submit': '¡A chismear! 💅',
+  'home.trending': '🔥 Tendencias ahora mismo',
+  'home.trendingPost': '{count} publicación popular',
+  'home.trendingPosts': '{count} publicaciones populares',
+  'home.daily': '🗓️ O juega el Reto Diario de hoy',
+  'home.rooms': '🎉 Juega con amigos en una Fiesta del Chisme',
+  'home.stats': '📊 Mira tus estadísticas de chisme',
+  'home.feature.trending.title': 'Temas en tendencia',
+  'home.feature.trending.desc': 'Entérate de las conversaciones más calientes',
+  'home.feature.insights.title': 'Análisis a fondo',
+  'home.feature.insights.desc': 'Consigue la primicia sobre cualquier tema',
+  'home.feature.quizzes.title': 'Juegos divertidos',
+  'home.feature.quizzes.desc': 'Pon a prueba lo que sabes de chismes',
+
+  'difficulty.easy': 'Fácil 🌱',
+  'difficulty.normal': 'Normal ☕️',
+  'difficulty.hard': 'Difícil 🔥',
+  'difficulty.adaptive': 'Adaptativo 🎯',
+
+  'mode.timed.label': 'Contrarreloj ⏱️',
+  'mode.timed.description': '¡Descubre todos los chismes que puedas en {seconds} segundos!',
+  'mode.timed.start': '¡Empieza el minuto del chisme! ☕️',
+  'mode.endless.label': 'Sin fin 🔥',
+  'mode.endless.description': 'Sin reloj: ¡mantén tu racha hasta el primer fallo!',
+  'mode.endless.start': '¡Empieza la racha! 🔥',
+  'mode.fixed.label': 'Rondas fijas 🎯',
+  'mode.fixed.description': 'Un número fijo de rondas y sin reloj. ¡Tómate tu tiempo!',
+  'mode.fixed.start': '¡Empiecen las rondas! 🎯',
+  'mode.sudden-death.label': 'Muerte súbita 💀',
+  'mode.sudden-death.description': '¡{seconds} segundos por ronda, y un fallo lo termina todo!',
+  'mode.sudden-death.start': '¡Enfrenta la muerte súbita! 💀',
+
+  'setup.title': 'Juego del Chisme',
+  'setup.placeholder': '¿De qué va el chisme...?',
+  'setup.rounds': 'Rondas:',
+  'setup.subreddits': 'Solo estos subreddits (opcional), p. ej. popculturechat, -teenagers',
+  'setup.instructions': 'Instrucciones:',
+  'setup.enterTopic': 'Escribe cualquier famoso o tema en tendencia',
+  'setup.oneReal': 'Una historia real escondida entre otras hechas por IA',
+  'setup.approvedOnly': '✅ Solo rondas revisadas',
+
+  'daily.title': 'Reto Diario',
+  'daily.topic': 'El chisme de hoy: {topic} ☕️',
+  'daily.rules': '{rounds} rondas, las mismas para todos. Un intento por día, ¡haz que cuente!',
+  'daily.played': 'Ya jugaste hoy. ¡Vuelve mañana! 🗓️',
+  'daily.start': '¡Empieza el reto de hoy! 🎯',
+  'daily.loading': 'Cargando el reto de hoy...',
+  'daily.comeBack': '¡Vuelve mañana para un nuevo reto! 🗓️',
+
+  'game.score': 'Puntos: {points}',
+  'game.round': 'Ronda {round}/{total}',
+  'game.streak': '🔥 Racha {streak}',
+  'game.timeHurry': '⏰ ¡Date prisa! ¡Se acaba el tiempo! ⚡',
+  'game.timeTicking': '⌛ El reloj corre... ¡Elige bien! 🤔',
+  'game.timeRelaxed': '🕒 ¡Tómate tu tiempo para descubrir la verdad! 🔍',
+  'game.roundTimer': '💀 ¡{seconds}s para elegir!',
+  'game.noClock': '🧘 Sin reloj, tómate tu tiempo',
+  'game.loading': 'Cargando chismes...',
+  'game.sourceFound': '✅ Encontramos una historia en {source}',
+  'game.sourceSearching': '⏳ Buscando una historia caliente',
+  'game.realReady': '✅ Chisme real escrito',
+  'game.realWriting': '⏳ Escribiendo el chisme real',
+  'game.decoys': 'Cocinando los falsos',
+  'game.timerPaused': '⏸️ Reloj en pausa hasta que la ronda esté lista',
+  'game.countdownPaused': '⏸️ La cuenta atrás empieza cuando las historias estén listas',
+  'game.intro': '¡Hora de probar tu radar de chismes! 🔍',
+  'game.introRules': 'Solo una de estas historias es real, el resto las generó la IA.',
+  'game.introQuestion': '¿Puedes descubrir la real?',
+  'game.retry': 'Intentar de nuevo 🔄',
+  'game.topic': 'Tema: {topic}',
+  'game.source': 'Fuente: {source}',
+  'game.difficulty': 'Dificultad: {difficulty}',
+  'game.bet': '🎲 Apuesta de confianza:',
+  'game.noBet': 'Sin apuesta',
+  'game.real': '✨ ¡Este era el chisme real!',
+  'game.viewOriginal': 'Ver original',
+  'game.fake': '🎭 ¡Esta historia la generó la IA!',
+  'game.whatWasReal': '🔎 Lo que era real: ',
+  'game.whatGaveItAway': '🕵️ Lo que lo delató: ',
+  'game.seeResults': 'Ver resultados 🏁',
+  'game.next': '¡Siguiente chisme!',
+  'game.stories': 'Historias',
+  'game.storyNumber': 'Historia {number}',
+  'game.keyboardHint': 'Pulsa 1–{count} para elegir una historia',
+  'game.keyboardNextHint': 'Pulsa Enter para la siguiente',
+  'game.roundTimerLow': '¡Solo quedan {seconds} segundos para elegir!',
+  'game.announceCorrect': '¡Correcto! La historia {number} era el chisme real.',
+  'game.announceWrong': 'Casi. La historia {number} era el chisme real.',
+  'game.shareRound': 'Compartir esta ronda 🔗',
+  'game.shareRoundTitle': '¿Puedes descubrir el chisme real de {topic}?',
+  'game.linkCopied': '¡Enlace copiado! 📋',
+  'game.copied': '¡Copiado al portapapeles! 📋',
+  'game.startFailed': 'No se pudo empezar la partida',
+  'game.fetchFailed': 'No se pudieron cargar los chismes',
+  'game.connectionLost': 'Se perdió la conexión mientras cargaban los chismes',
+  'game.guessFailed': 'No se pudo enviar tu respuesta',
+
+  'over.title': '¡Fin del juego!',
+  'over.master': '🎭 👑 ¡Eres el MAESTRO SUPREMO DEL CHISME! 👑 🎭\n¡Tu habilidad para detectar el chisme real es legendaria! 🫖✨',
+  'over.detective': '🌟 ¡Impresionante detective del chisme! 🔍\n¡Tienes un talento natural para descubrir la verdad! 💫',
+  'over.apprentice': '🎯 ¡Nada mal, aprendiz del chisme! 📚\n¡Sigue entrenando tu radar de rumores! 🎪',
+  'over.circus': '🎪 ¡Bienvenido al Circo del Chisme! 🎪\n¡Hora de afinar esas habilidades para detectar la verdad! 🎭',
+  'over.share': 'Compartir resultados 📣',
+  'over.stats': '📊 Mira cómo estás mejorando',
+  'over.playAgain': 'Jugar de nuevo 🎭',
+  'over.changeMode': 'Cambiar modo',
+
+  'summary.end.time': '⏰ ¡Se acabó el tiempo!',
+  'summary.end.round-timer': '💀 Se acabó el tiempo de la ronda',
+  'summary.end.miss': '❌ Un fallo y se acabó la racha',
+  'summary.end.rounds': '🏁 Todas las rondas jugadas',
+  'summary.points': '⭐ {points} pts',
+  'summary.base': 'Base',
+  'summary.speed': 'Rapidez',
+  'summary.streaks': 'Rachas',
+  'summary.bets': 'Apuestas',
+  'summary.bestStreak': 'Mejor racha',
+  'summary.roundsPlayed': 'Rondas jugadas',
+  'summary.spotted': 'Historias reales descubiertas',
+  'summary.accuracy': 'Precisión',
+  'summary.survived': 'Rondas superadas',
+  'summary.fastest': 'Elección más rápida',
+  'summary.average': 'Elección promedio',
+  'summary.correct': 'Aciertos',
+  'summary.attempts': 'Intentos totales',
+
+  'score.base': '{points} base',
+  'score.speed': '{points} rapidez ({seconds}s)',
+  'score.streak': '{points} racha ×{multiplier}',
+  'score.bet': '{points} apuesta ×{wager}',
+  'score.missed': 'Fallaste',
+  'score.points': '{points} pts',
+
+  'leaderboard.all': 'Histórico 🏆',
+  'leaderboard.daily': 'Hoy 📅',
+  'leaderboard.topic': 'Este tema 🔥',
+  'leaderboard.challenge': 'Reto Diario 📆',
+  'leaderboard.challengeRank': '🎉 Eres el #{rank} en el reto de hoy',
+  'leaderboard.ranks': '🎉 Eres el #{all} histórico, el #{daily} de hoy y el #{topicRank} en “{topic}”',
+  'leaderboard.alias': 'Tu alias chismoso',
+  'leaderboard.saving': 'Guardando...',
+  'leaderboard.submit': 'Enviar puntuación',
+  'leaderboard.submitFailed': 'No se pudo enviar la puntuación',
+  'leaderboard.empty': 'Aún no hay puntuaciones. ¡Sé el primero!',
+  'leaderboard.entry': '{points} pts · {accuracy}%',
+  'leaderboard.yourRank': 'Tu partida es la #{rank} en esta tabla',
+
+  'report.open': '🚩 Reportar esta ronda',
+  'report.label': '¿Qué tiene de malo?',
+  'report.reason.wrong-answer': 'La historia marcada como real no lo es',
+  'report.reason.broken-story': 'Una historia está rota o no tiene sentido',
+  'report.reason.off-topic': 'No trata sobre el tema',
+  'report.reason.offensive': 'Es ofensiva',
+  'report.reason.other': 'Otra cosa',
+  'report.note': '¿Algo más que deba saber quien la revise? (opcional)',
+  'report.send': 'Enviar reporte',
+  'report.cancel': 'Cancelar',
+  'report.thanks': '¡Gracias! Alguien del equipo la revisará. 🙏',
+  'report.failed': 'No se pudo reportar la ronda',
+
+  'room.title': 'Fiesta del Chisme 🎉',
+  'room.host': 'Crear una sala 🏠',
+  'room.code': 'Código de sala',
+  'room.join': 'Unirse con un código 🔑',
+  'room.waiting': 'Esperando a tus amigos... ¡comparte el código {code} para que entren!',
+  'room.rules': 'Todos ven las mismas historias y tienen {seconds} segundos para elegir la real.',
+  'room.loading': 'Preparando la siguiente ronda... ☕️',
+  'room.real': '✨ Chisme real',
+  'room.fake': '🎭 Generado por IA',
+  'room.finalScores': '🏆 Puntuación final',
+  'room.scoreboard': 'Marcador',
+  'room.start': '¡Empezar el juego! 🚀',
+  'room.next': '¡Siguiente ronda!',
+  'room.waitingHost': 'Esperando a que el anfitrión empiece la siguiente ronda...',
+  'room.leave': 'Salir de la sala 👋',
+  'room.failed': 'Algo salió mal',
+
+  'shared.title': '¿Qué chisme de {topic} es real? 🤔',
+  'shared.correct': '🎯 ¡Descubriste el chisme real!',
+  'shared.wrong': '🎭 ¡Te engañamos! Esa era inventada.',
+  'shared.playFull': 'Juega una partida completa sobre {topic} ☕️',
+  'shared.keyboardPlayHint': 'Pulsa Enter para jugar una partida completa',
+
+  'stats.title': 'Tus estadísticas de chisme',
+  'stats.loading': 'Cargando...',
+  'stats.empty': 'Aún no hay partidas. ¡Juega una ronda y tus estadísticas aparecerán aquí! ☕️',
+  'stats.games': 'Partidas jugadas',
+  'stats.totalPoints': 'Puntos totales',
+  'stats.bestGame': 'Mejor partida',
+  'stats.history': 'Precisión con el tiempo',
+  'stats.historyLabel': 'Precisión por partida',
+  'stats.historyEmpty': 'Juega un par de partidas más para ver tu tendencia 📈',
+  'stats.byTopic': 'Por tema',
+  'stats.byDifficulty': 'Por dificultad',
+  'stats.bySubreddit': 'Por subreddit',
+  'stats.noGuesses': 'Aún no hay respuestas',
+  'stats.noReddit': 'Aún no hay rondas de Reddit',
+  'stats.playAgain': '🎭 Jugar otra partida',
+  'stats.sync.title': 'Lleva tus estadísticas a otros dispositivos',
+  'stats.sync.intro': 'Las estadísticas viven en este navegador con un id anónimo. Activa la sincronización para respaldarlas y luego introduce el código de sincronización en otro dispositivo. Guárdalo en privado: cualquiera con el código puede cambiar tus estadísticas.',
+  'stats.sync.start': 'Sincronizar mis estadísticas ☁️',
+  'stats.sync.stop': 'Desactivar sincronización',
+  'stats.sync.placeholder': 'Código de sincronización de otro dispositivo',
+  'stats.sync.restore': 'Restaurar',
+  'stats.sync.off': 'La sincronización está desactivada. Tus estadísticas se quedan en este navegador.',
+  'stats.sync.done': '¡Sincronizado! ☁️',
+  'stats.sync.restored': '¡Perfil restaurado! 🎉',
+  'stats.sync.failed': 'No se pudo sincronizar el perfil',
+};
@@ -0,0 +1,19 @@
+import { Locale } from '@/types/i18n';
+import { en, MessageKey } from './en';
+import { es } from './es';
+import { pt } from './pt';
+
+export type { MessageKey };
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, es, pt };
+
+export type MessageParams = Record<string, string | number>;
+
+// "Round {round}/{total}" with { round: 2, total: 10 } -> "Round 2/10"; unknown placeholders stay as they are
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams) {
+  const message = MESSAGES[locale][key] ?? en[key];
+  if (!params) {
+    return message;
+  }
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
@@ -0,0 +1,218 @@
+import { MessageKey } from './en';
+
+export const pt: Record<MessageKey, string> = {
+  'language.label': 'Idioma',
+
+  'home.tagline': 'Seu companheiro de fofoca com IA que sabe todos os detalhes picantes',
+  'home.title': 'Pronto para soltar a fofoca?',
+  'home.intro': 'De escândalos de celebridades a dramas do mundo tech, tenho toda a fofoca quentinha pronta para você!',
+  'home.placeholder': 'Drama de famosos? Fofoca tech? Você escolhe!',
+  'home.submit': 'Bora fofocar! 💅',
+  'home.trending': '🔥 Em alta agora',
+  'home.trendingPost': '{count} post popular',
+  'home.trendingPosts': '{count} posts populares',
+  'home.daily': '🗓️ Ou jogue o Desafio Diário de hoje',
+  'home.rooms': '🎉 Jogue com amigos numa Festa da Fofoca',
+  'home.stats': '📊 Veja suas estatísticas de fofoca',
+  'home.feature.trending.title': 'Assuntos em alta',
+  'home.feature.trending.desc': 'Fique por dentro das conversas mais quentes',
+  'home.feature.insights.title': 'Análises a fundo',
+  'home.feature.insights.desc': 'Descubra os bastidores de qualquer assunto',
+  'home.feature.quizzes.title': 'Quizzes divertidos',
+  'home.feature.quizzes.desc': 'Teste seus conhecimentos de fofoca',
+
+  'difficulty.easy': 'Fácil 🌱',
+  'difficulty.normal': 'Normal ☕️',
+  'difficulty.hard': 'Difícil 🔥',
+  'difficulty.adaptive': 'Adaptativo 🎯',
+
+  'mode.timed.label': 'Contra o tempo ⏱️',
+  'mode.timed.description': 'Descubra o máximo de fofocas que puder em {seconds} segundos!',
+  'mode.timed.start': 'Começar o minuto da fofoca! ☕️',
+  'mode.endless.label': 'Sem fim 🔥',
+  'mode.endless.description': 'Sem relógio: mantenha sua sequência até o primeiro erro!',
+  'mode.endless.start': 'Começar a sequência! 🔥',
+  'mode.fixed.label': 'Rodadas fixas 🎯',
+  'mode.fixed.description': 'Um número fixo de rodadas e sem relógio. Sem pressa!',
+  'mode.fixed.start': 'Começar as rodadas! 🎯',
+  'mode.sudden-death.label': 'Morte súbita 💀',
+  'mode.sudden-death.description': '{seconds} segundos por rodada, e um erro acaba com tudo!',
+  'mode.sudden-death.start': 'Encarar a morte súbita! 💀',
+
+  'setup.title': 'Jogo da Fofoca',
+  'setup.placeholder': 'Qual é a fofoca...?',
+  'setup.rounds': 'Rodadas:',
+  'setup.subreddits': 'Só estes subreddits (opcional), ex. popculturechat, -teenagers',
+  'setup.instructions': 'Instruções:',
+  'setup.enterTopic': 'Digite qualquer celebridade ou assunto em alta',
+  'setup.oneReal': 'Uma história real escondida entre outras feitas por IA',
+  'setup.approvedOnly': '✅ Só rodadas revisadas',
+
+  'daily.title': 'Desafio Diário',
+  'daily.topic': 'A fofoca de hoje: {topic} ☕️',
+  'daily.rules': '{rounds} rodadas, as mesmas para todos. Uma tentativa por dia, então capriche!',
+  'daily.played': 'Você já jogou hoje. Volte amanhã! 🗓️',
+  'daily.start': 'Começar o desafio de hoje! 🎯',
+  'daily.loading': 'Carregando o desafio de hoje...',
+  'daily.comeBack': 'Volte amanhã para um novo desafio! 🗓️',
+
+  'game.score': 'Pontos: {points}',
+  'game.round': 'Rodada {round}/{total}',
+  'game.streak': '🔥 Sequência {streak}',
+  'game.timeHurry': '⏰ Corre! O tempo está acabando! ⚡',
+  'game.timeTicking': '⌛ O relógio está correndo... Escolha bem! 🤔',
+  'game.timeRelaxed': '🕒 Sem pressa para descobrir a verdade! 🔍',
+  'game.roundTimer': '💀 {seconds}s para escolher!',
+  'game.noClock': '🧘 Sem relógio, vá com calma',
+  'game.loading': 'Carregando fofocas...',
+  'game.sourceFound': '✅ Encontramos uma história em {source}',
+  'game.sourceSearching': '⏳ Procurando uma história quente',
+  'game.realReady': '✅ Fofoca real escrita',
+  'game.realWriting': '⏳ Escrevendo a fofoca real',
+  'game.decoys': 'Preparando as falsas',
+  'game.timerPaused': '⏸️ Relógio pausado até a rodada ficar pronta',
+  'game.countdownPaused': '⏸️ A contagem começa quando as histórias estiverem prontas',
+  'game.intro': 'Hora de testar seu radar de fofoca! 🔍',
+  'game.introRules': 'Só uma destas histórias é real, o resto foi gerado por IA.',
+  'game.introQuestion': 'Consegue descobrir a verdadeira?',
+  'game.retry': 'Tentar de novo 🔄',
+  'game.topic': 'Assunto: {topic}',
+  'game.source': 'Fonte: {source}',
+  'game.difficulty': 'Dificuldade: {difficulty}',
+  'game.bet': '🎲 Aposta de confiança:',
+  'game.noBet': 'Sem aposta',
+  'game.real': '✨ Esta era a fofoca real!',
+  'game.viewOriginal': 'Ver original',
+  'game.fake': '🎭 Esta história foi gerada por IA!',
+  'game.whatWasReal': '🔎 O que era real: ',
+  'game.whatGaveItAway': '🕵️ O que a entregou: ',
+  'game.seeResults': 'Ver resultados 🏁',
+  'game.next': 'Próxima fofoca!',
+  'game.stories': 'Histórias',
+  'game.storyNumber': 'História {number}',
+  'game.keyboardHint': 'Aperte 1–{count} para escolher uma história',
+  'game.keyboardNextHint': 'Aperte Enter para a próxima',
+  'game.roundTimerLow': 'Só faltam {seconds} segundos para escolher!',
+  'game.announceCorrect': 'Acertou! A história {number} era a fofoca real.',
+  'game.announceWrong': 'Quase. A história {number} era a fofoca real.',
+  'game.shareRound': 'Compartilhar esta rodada 🔗',
+  'game.shareRoundTitle': 'Consegue descobrir a fofoca real sobre {topic}?',
+  'game.linkCopied': 'Link copiado! 📋',
+  'game.copied': 'Copiado para a área de transferência! 📋',
+  'game.startFailed': 'Não foi possível começar o jogo',
+  'game.fetchFailed': 'Não foi possível carregar as fofocas',
+  'game.connectionLost': 'A conexão caiu enquanto as fofocas carregavam',
+  'game.guessFailed': 'Não foi possível enviar seu palpite',
+
+  'over.title': 'Fim de jogo!',
+  'over.master': '🎭 👑 Você é o MESTRE SUPREMO DA FOFOCA! 👑 🎭\nSua habilidade de achar a fofoca real é lendária! 🫖✨',
+  'over.detective': '🌟 Detetive da fofoca impressionante! 🔍\nVocê tem talento natural para descobrir a verdade! 💫',
+  'over.apprentice': '🎯 Nada mal, aprendiz da fofoca! 📚\nContinue treinando seu radar de boatos! 🎪',
+  'over.circus': '🎪 Bem-vindo ao Circo da Fofoca! 🎪\nHora de afiar suas habilidades de achar a verdade! 🎭',
+  'over.share': 'Compartilhar resultados 📣',
+  'over.stats': '📊 Veja como você está melhorando',
+  'over.playAgain': 'Jogar de novo 🎭',
+  'over.changeMode': 'Mudar modo',
+
+  'summary.end.time': '⏰ Acabou o tempo!',
+  'summary.end.round-timer': '💀 O tempo da rodada acabou',
+  'summary.end.miss': '❌ Um erro e a sequência acabou',
+  'summary.end.rounds': '🏁 Todas as rodadas jogadas',
+  'summary.points': '⭐ {points} pts',
+  'summary.base': 'Base',
+  'summary.speed': 'Rapidez',
+  'summary.streaks': 'Sequências',
+  'summary.bets': 'Apostas',
+  'summary.bestStreak': 'Melhor sequência',
+  'summary.roundsPlayed': 'Rodadas jogadas',
+  'summary.spotted': 'Histórias reais descobertas',
+  'summary.accuracy': 'Precisão',
+  'summary.survived': 'Rodadas sobrevividas',
+  'summary.fastest': 'Escolha mais rápida',
+  'summary.average': 'Escolha média',
+  'summary.correct': 'Acertos',
+  'summary.attempts': 'Tentativas',
+
+  'score.base': '{points} base',
+  'score.speed': '{points} rapidez ({seconds}s)',
+  'score.streak': '{points} sequência ×{multiplier}',
+  'score.bet': '{points} aposta ×{wager}',
+  'score.missed': 'Errou',
+  'score.points': '{points} pts',
+
+  'leaderboard.all': 'Geral 🏆',
+  'leaderboard.daily': 'Hoje 📅',
+  'leaderboard.topic': 'Este assunto 🔥',
+  'leaderboard.challenge': 'Desafio Diário 📆',
+  'leaderboard.challengeRank': '🎉 Você é o #{rank} no desafio de hoje',
+  'leaderboard.ranks': '🎉 Você é o #{all} no geral, o #{daily} hoje e o #{topicRank} em “{topic}”',
+  'leaderboard.alias': 'Seu apelido de fofoqueiro',
+  'leaderboard.saving': 'Salvando...',
+  'leaderboard.submit': 'Enviar pontuação',
+  'leaderboard.submitFailed': 'Não foi possível enviar a pontuação',
+  'leaderboard.empty': 'Ainda não há pontuações. Seja o primeiro!',
+  'leaderboard.entry': '{points} pts · {accuracy}%',
+  'leaderboard.yourRank': 'Seu jogo é o #{rank} neste ranking',
+
+  'report.open': '🚩 Denunciar esta rodada',
+  'report.label': 'O que tem de errado?',
+  'report.reason.wrong-answer': 'A história marcada como real não é',
+  'report.reason.broken-story': 'Uma história está quebrada ou sem sentido',
+  'report.reason.off-topic': 'Não é sobre o assunto',
+  'report.reason.offensive': 'É ofensiva',
+  'report.reason.other': 'Outra coisa',
+  'report.note': 'Algo mais que a curadoria deva saber? (opcional)',
+  'report.send': 'Enviar denúncia',
+  'report.cancel': 'Cancelar',
+  'report.thanks': 'Valeu! Alguém da curadoria vai dar uma olhada. 🙏',
+  'report.failed': 'Não foi possível denunciar a rodada',
+
+  'room.title': 'Festa da Fofoca 🎉',
+  'room.host': 'Criar uma sala 🏠',
+  'room.code': 'Código da sala',
+  'room.join': 'Entrar com um código 🔑',
+  'room.waiting': 'Esperando a galera... compartilhe o código {code} para eles entrarem!',
+  'room.rules': 'Todo mundo vê as mesmas histórias e tem {seconds} segundos para escolher a real.',
+  'room.loading': 'Preparando a próxima rodada... ☕️',
+  'room.real': '✨ Fofoca real',
+  'room.fake': '🎭 Gerada por IA',
+  'room.finalScores': '🏆 Placar final',
+  'room.scoreboard': 'Placar',
+  'room.start': 'Começar o jogo! 🚀',
+  'room.next': 'Próxima rodada!',
+  'room.waitingHost': 'Esperando o anfitrião começar a próxima rodada...',
+  'room.leave': 'Sair da sala 👋',
+  'room.failed': 'Algo deu errado',
+
+  'shared.title': 'Qual fofoca de {topic} é real? 🤔',
+  'shared.correct': '🎯 Você achou a fofoca real!',
+  'shared.wrong': '🎭 Te enganamos! Essa era inventada.',
+  'shared.playFull': 'Jogue uma partida completa sobre {topic} ☕️',
+  'shared.keyboardPlayHint': 'Aperte Enter para jogar uma partida completa',
+
+  'stats.title': 'Suas estatísticas de fofoca',
+  'stats.loading': 'Carregando...',
+  'stats.empty': 'Nenhuma partida ainda. Jogue uma rodada e suas estatísticas aparecem aqui! ☕️',
+  'stats.games': 'Partidas jogadas',
+  'stats.totalPoints': 'Pontos totais',
+  'stats.bestGame': 'Melhor partida',
+  'stats.history': 'Precisão ao longo do tempo',
+  'stats.historyLabel': 'Precisão por partida',
+  'stats.historyEmpty': 'Jogue mais algumas partidas para ver sua tendência 📈',
+  'stats.byTopic': 'Por assunto',
+  'stats.byDifficulty': 'Por dificuldade',
+  'stats.bySubreddit': 'Por subreddit',
+  'stats.noGuesses': 'Nenhum palpite ainda',
+  'stats.noReddit': 'Nenhuma rodada do Reddit ainda',
+  'stats.playAgain': '🎭 Jogar outra partida',
+  'stats.sync.title': 'Leve suas estatísticas para outros dispositivos',
+  'stats.sync.intro': 'As estatísticas ficam neste navegador com um id anônimo. Ative a sincronização para fazer backup e depois digite o código de sincronização em outro dispositivo. Guarde-o só para você: qualquer pessoa com o código pode alterar suas estatísticas.',
+  'stats.sync.start': 'Sincronizar minhas estatísticas ☁️',
+  'stats.sync.stop': 'Desativar sincronização',
+  'stats.sync.placeholder': 'Código de sincronização de outro dispositivo',
+  'stats.sync.restore': 'Restaurar',
+  'stats.sync.off': 'A sincronização está desativada. Suas estatísticas ficam neste navegador.',
+  'stats.sync.done': 'Sincronizado! ☁️',
+  'stats.sync.restored': 'Perfil restaurado! 🎉',
+  'stats.sync.failed': 'Não foi possível sincronizar o perfil',
+};
@@ -0,0 +1,119 @@
+import { GameMode } from '@/types/gossip';
+import { LeaderboardEntry, LeaderboardRanks, LeaderboardScope } from '@/types/leaderboard';
+import { HttpError } from '@/lib/errors';
+import { getGame, isGameOver } from '@/lib/game/store';
+import { getCollection } from '@/lib/storage';
+
+const MAX_NICKNAME_LENGTH = 20;
+
+const entries = () => getCollection<LeaderboardEntry>('leaderboard');
+
+export function normalizeTopic(topic: string) {
+  return topic.trim().toLowerCase();
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry) {
+  return (b.points ?? b.score) - (a.points ?? a.score) || b.score - a.score || b.accuracy - a.accuracy || a.finishedAt.localeCompare(b.finishedAt);
+}
+
+// Scores from different modes aren't comparable, so every board is per mode
+function filterMode(all: LeaderboardEntry[], mode: GameMode) {
+  return all.filter(entry => (entry.mode ?? 'timed') === mode);
+}
+
+function filterScope(all: LeaderboardEntry[], scope: LeaderboardScope, topic?: string) {
+  switch (scope) {
+    case 'daily': {
+      const day = today();
+      return all.filter(entry => entry.day === day);
+    }
+    case 'challenge': {
+      const day = today();
+      return all.filter(entry => entry.challenge === day);
+    }
+    case 'topic': {
+      const normalized = normalizeTopic(topic || '');
+      return all.filter(entry => normalizeTopic(entry.topic) === normalized);
+    }
+    default:
+      return all;
+  }
+}
+
+export function sanitizeNickname(value: unknown) {
+  const nickname = typeof value === 'string'
+    ? value.replace(/[\u0000-\u001f\u007f]/g, '').trim().slice(0, MAX_NICKNAME_LENGTH)
+    : '';
+  if (!nickname) {
+    throw new HttpError('Nickname is required', 400);
+  }
+  return nickname;
+}
+
+export async function getLeaderboard(scope: LeaderboardScope, { topic, mode = 'timed', limit = 10 }: {
+  topic?: string;
+  mode?: GameMode;
+  limit?: number;
+} = {}) {
+  const all = filterMode(await entries().list(), mode);
+  return filterScope(all, scope, topic).sort(compareEntries).slice(0, limit);
+}
+
+function rankOf(all: LeaderboardEntry[], entry: LeaderboardEntry) {
+  return all.sort(compareEntries).findIndex(other => other.id === entry.id) + 1;
+}
+
+// Scores come from the server-side game session; the client only picks a nickname
+export async function submitGame(gameId: string, nicknameInput: unknown) {
+  const nickname = sanitizeNickname(nicknameInput);
+  const game = getGame(gameId);
+  if (!isGameOver(game)) {
+    throw new HttpError('Game is still in progress', 409);
+  }
+
+  const collection = entries();
+  if (await collection.get(game.id)) {
+    throw new HttpError('Game has already been submitted', 409);
+  }
+  // The once-a-day limit is only a cookie, so the challenge board also takes one score per alias
+  if (game.daily) {
+    const alias = nickname.toLowerCase();
+    const taken = (await collection.list())
+      .some(other => other.challenge === game.daily && other.nickname.toLowerCase() === alias);
+    if (taken) {
+      throw new HttpError(`${nickname} already has a score in this Daily Challenge`, 409);
+    }
+  }
+
+  const finishedAt = new Date(Math.min(Date.now(), game.endsAt ?? game.updatedAt));
+  const entry = await collection.put({
+    id: game.id,
+    nickname,
+    topic: game.topic,
+    difficulty: game.difficulty,
+    mode: game.mode,
+    score: game.score,
+    points: game.points,
+    attempts: game.attempts,
+    accuracy: game.attempts > 0 ? Math.round((game.score / game.attempts) * 100) : 0,
+    finishedAt: finishedAt.toISOString(),
+    day: finishedAt.toISOString().slice(0, 10),
+    challenge: game.daily,
+  });
+
+  const all = filterMode(await collection.list(), game.mode);
+  const ranks: LeaderboardRanks = {
+    all: rankOf(filterScope(all, 'all'), entry),
+    daily: rankOf(filterScope(all, 'daily'), entry),
+    topic: rankOf(filterScope(all, 'topic', entry.topic), entry),
+    challenge: entry.challenge
+      ? rankOf(all.filter(other => other.challenge === entry.challenge), entry)
+      : undefined,
+  };
+
+  return { entry, ranks };
+}
@@ -0,0 +1,33 @@
+import { PipelineStage, StageConfig } from './types';
+
+const DEFAULT_STAGE_CONFIG: Record<PipelineStage, StageConfig> = {
+  realSummary: { model: 'gpt-4o', temperature: 0.7, maxTokens: 100 },
+  styleAnalysis: { model: 'gpt-4o', temperature: 0.5, maxTokens: 100 },
+  // Same token budget as the real summary, so decoys don't come out longer
+  decoy: { model: 'gpt-4o', temperature: 0.8, maxTokens: 100 },
+  explanation: { model: 'gpt-4o', temperature: 0.3, maxTokens: 120 },
+};
+
+const STAGE_ENV_PREFIX: Record<PipelineStage, string> = {
+  realSummary: 'LLM_REAL_SUMMARY',
+  styleAnalysis: 'LLM_STYLE_ANALYSIS',
+  decoy: 'LLM_DECOY',
+  explanation: 'LLM_EXPLANATION',
+};
+
+function readNumber(value: string | undefined, fallback: number) {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+// Per-stage settings, e.g. LLM_DECOY_TEMPERATURE=0.9; LLM_MODEL sets the model for every stage
+export function getStageConfig(stage: PipelineStage): StageConfig {
+  const defaults = DEFAULT_STAGE_CONFIG[stage];
+  const prefix = STAGE_ENV_PREFIX[stage];
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || defaults.model,
+    temperature: readNumber(process.env[`${prefix}_TEMPERATURE`], defaults.temperature),
+    maxTokens: readNumber(process.env[`${prefix}_MAX_TOKENS`], defaults.maxTokens),
+  };
+}
@@ -0,0 +1,77 @@
+import { withFixture } from '@/lib/fixtures';
+import { getStageConfig } from './config';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import { ChatMessage, LLMProvider, ModerationResult, PipelineStage } from './types';
+
+export type { ChatMessage, LLMProvider, ModerationResult, PipelineStage, StageConfig } from './types';
+export { getStageConfig } from './config';
+
+let provider: LLMProvider | undefined;
+
+// Built lazily so a missing key is reported when generating, not when the module loads
+export function getProvider(): LLMProvider {
+  if (provider) {
+    return provider;
+  }
+
+  const kind = process.env.LLM_PROVIDER || 'openai';
+  switch (kind) {
+    case 'mock':
+      provider = createMockProvider();
+      break;
+    case 'openai-compatible': {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error('Missing LLM_BASE_URL environment variable');
+      }
+      // Local servers usually ignore the key, but the client requires one
+      provider = createOpenAIProvider({
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL,
+        name: 'openai-compatible',
+      });
+      break;
+    }
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('Missing OPENAI_API_KEY environment variable (or set LLM_PROVIDER=mock)');
+      }
+      provider = createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY, moderation: true });
+      break;
+    default:
+      throw new Error(`Unknown LLM provider: ${kind}`);
+  }
+
+  return provider;
+}
+
+export interface GenerateOptions {
+  seed?: number;
+  // Per-call override of the stage temperature, e.g. from the round difficulty
+  temperature?: number;
+}
+
+export async function generateText(stage: PipelineStage, messages: ChatMessage[], options: GenerateOptions = {}) {
+  const config = getStageConfig(stage);
+  const request = {
+    stage,
+    messages,
+    seed: options.seed,
+    ...config,
+    temperature: options.temperature ?? config.temperature,
+  };
+  return withFixture('llm', request, () => getProvider().complete(request));
+}
+
+// Runs the provider's moderation model, if it has one; undefined means "not checked"
+export async function moderateText(text: string): Promise<ModerationResult | undefined> {
+  if (process.env.GOSSIP_MODERATION === 'off') {
+    return undefined;
+  }
+  const { moderate } = getProvider();
+  if (!moderate) {
+    return undefined;
+  }
+  return withFixture('moderation', { text }, () => moderate(text));
+}
@@ -0,0 +1,110 @@
+import { ChatMessage, LLMProvider } from './types';
+
+const CANNED_DECOYS_EN = [
+  "Sources close to {topic} say a secret late-night meeting ran way past midnight, and nobody is admitting who called it. Fans are already piecing together clues from a very suspicious group photo.",
+  "Rumor has it {topic} quietly cancelled a big appearance last minute, leaving organizers scrambling for a backup plan. Insiders swear the real reason is far juicier than the official statement.",
+  "Word on the street is that {topic} has been spotted house hunting in a totally unexpected city. The internet is convinced a dramatic announcement is coming any day now.",
+  "Tongues are wagging after {topic} was caught liking, then unliking, a rival's post at 3am. Screenshots are everywhere and the comment section is pure chaos.",
+  "An anonymous insider claims {topic} has a surprise collaboration in the works that nobody saw coming. Apparently the contracts were signed over brunch and kept hush-hush ever since.",
+  "Fans are buzzing after {topic} showed up to a charity gala with a mystery plus-one who refused every photo. The guest list has since vanished from the organizer's website.",
+];
+
+const CANNED_DECOYS_ES = [
+  "Fuentes cercanas a {topic} dicen que una reunión secreta se alargó hasta pasada la medianoche, y nadie admite quién la convocó. Los fans ya están buscando pistas en una foto de grupo muy sospechosa.",
+  "Se rumorea que {topic} canceló a última hora una gran aparición, dejando a los organizadores buscando un plan B. Los de dentro juran que el verdadero motivo es mucho más jugoso que el comunicado oficial.",
+  "Dicen por ahí que {topic} ha sido visto buscando casa en una ciudad totalmente inesperada. Internet está convencido de que se viene un anuncio dramático en cualquier momento.",
+  "Las lenguas no paran después de que {topic} diera like, y luego lo quitara, a una publicación de un rival a las 3 de la mañana. Las capturas están por todas partes y los comentarios son un caos total.",
+  "Un informante anónimo asegura que {topic} prepara una colaboración sorpresa que nadie vio venir. Al parecer, los contratos se firmaron en un brunch y se han mantenido en secreto desde entonces.",
+  "Los fans están revolucionados después de que {topic} llegara a una gala benéfica con un acompañante misterioso que rechazó todas las fotos. La lista de invitados ha desaparecido de la web del organizador.",
+];
+
+const CANNED_DECOYS_PT = [
+  "Fontes próximas de {topic} dizem que uma reunião secreta foi até depois da meia-noite, e ninguém admite quem a marcou. Os fãs já estão juntando pistas de uma foto de grupo muito suspeita.",
+  "Dizem que {topic} cancelou uma grande aparição em cima da hora, deixando os organizadores atrás de um plano B. Pessoas de dentro juram que o verdadeiro motivo é bem mais picante que a nota oficial.",
+  "A notícia que corre é que {topic} foi visto procurando casa numa cidade totalmente inesperada. A internet está convencida de que um anúncio dramático vem aí a qualquer momento.",
+  "Todo mundo está comentando depois que {topic} curtiu, e depois descurtiu, um post de um rival às 3 da manhã. Os prints estão por toda parte e os comentários viraram um caos.",
+  "Um informante anônimo afirma que {topic} tem uma colaboração surpresa a caminho que ninguém esperava. Parece que os contratos foram assinados num brunch e mantidos em segredo desde então.",
+  "Os fãs estão agitados depois que {topic} apareceu num baile beneficente com um acompanhante misterioso que recusou todas as fotos. A lista de convidados sumiu do site do organizador.",
+];
+
+interface MockLanguage {
+  decoys: string[];
+  summary: (title: string) => string;
+  realExplanation: (title: string) => string;
+  decoyExplanation: (title: string, sentence: string) => string;
+}
+
+// Keyed by the language name prompts ask for, see languageRequirement in the pipeline stages
+const MOCK_LANGUAGES: Record<string, MockLanguage> = {
+  English: {
+    decoys: CANNED_DECOYS_EN,
+    summary: title => `Spill alert: ${title}! The internet can't stop talking about it, and the comments are getting spicier by the minute.`,
+    realExplanation: title => `Everything here comes from the post "${title}"; only the playful tone was added.`,
+    decoyExplanation: (title, sentence) => `The post "${title}" says nothing like this: "${sentence}" was made up, and the vague insiders are a classic tell.`,
+  },
+  Spanish: {
+    decoys: CANNED_DECOYS_ES,
+    summary: title => `¡Alerta de chisme: ${title}! Internet no deja de hablar de ello y los comentarios están cada vez más picantes.`,
+    realExplanation: title => `Todo aquí viene de la publicación "${title}"; solo se añadió el tono divertido.`,
+    decoyExplanation: (title, sentence) => `La publicación "${title}" no dice nada parecido: "${sentence}" es inventado, y los informantes vagos son una pista clásica.`,
+  },
+  Portuguese: {
+    decoys: CANNED_DECOYS_PT,
+    summary: title => `Alerta de fofoca: ${title}! A internet não para de falar nisso e os comentários estão cada vez mais picantes.`,
+    realExplanation: title => `Tudo aqui vem do post "${title}"; só o tom divertido foi acrescentado.`,
+    decoyExplanation: (title, sentence) => `O post "${title}" não diz nada disso: "${sentence}" foi inventado, e os informantes vagos são uma pista clássica.`,
+  },
+};
+
+const CANNED_STYLE_ANALYSIS =
+  'Playful tone, named sources like insiders and fans, a concrete event, and a teasing cliffhanger ending.';
+
+// Small stable string hash so the same prompt always yields the same canned answer
+function hashString(value: string) {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function readPromptField(messages: ChatMessage[], pattern: RegExp) {
+  const userPrompt = messages.filter(message => message.role === 'user').map(message => message.content).join('\n');
+  return userPrompt.match(pattern)?.[1]?.trim();
+}
+
+// Deterministic backend for offline development and tests: no key, no network
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    async complete({ stage, messages, seed }) {
+      const language = MOCK_LANGUAGES[readPromptField(messages, /Write in ([A-Z]\w+)/) || 'English'] ?? MOCK_LANGUAGES.English;
+
+      switch (stage) {
+        case 'realSummary': {
+          const title = readPromptField(messages, /Title:\s*(.+)/) || 'something big just happened';
+          return language.summary(title.replace(/[.!?]+$/, ''));
+        }
+        case 'styleAnalysis':
+          return CANNED_STYLE_ANALYSIS;
+        case 'decoy': {
+          const topic = readPromptField(messages, /about "([^"]+)"/) || 'everyone\'s favorite star';
+          // Decoys of the same round differ by seed, so they never share a canned story
+          const index = (hashString(topic) + (seed || 0)) % language.decoys.length;
+          return language.decoys[index].replace(/\{topic\}/g, topic);
+        }
+        case 'explanation': {
+          const title = readPromptField(messages, /Post title:\s*(.+)/) || 'the source post';
+          const fake = readPromptField(messages, /Fake story:\s*(.+)/);
+          if (!fake) {
+            return language.realExplanation(title);
+          }
+          const firstSentence = fake.match(/^.*?[.!?](\s|$)/)?.[0].trim() || fake;
+          return language.decoyExplanation(title, firstSentence);
+        }
+        default:
+          return '';
+      }
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import OpenAI from 'openai';
+import { LLMProvider, ModerationResult } from './types';
+
+// Works against api.openai.com or any OpenAI-compatible server (Ollama, llama.cpp, vLLM...)
+export function createOpenAIProvider({ apiKey, baseURL, name = 'openai', moderation = false }: {
+  apiKey: string;
+  baseURL?: string;
+  name?: string;
+  // OpenAI-compatible servers rarely implement /moderations
+  moderation?: boolean;
+}): LLMProvider {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  const moderate = async (text: string): Promise<ModerationResult> => {
+    const response = await client.moderations.create({ input: text });
+    const result = response.results[0];
+    const categories = Object.entries(result?.categories || {})
+      .filter(([, flagged]) => flagged)
+      .map(([category]) => category);
+    return { flagged: Boolean(result?.flagged), categories };
+  };
+
+  return {
+    name,
+    moderate: moderation ? moderate : undefined,
+    async complete({ model, temperature, maxTokens, messages, seed }) {
+      const response = await client.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        seed,
+      });
+
+      return response.choices[0]?.message.content?.trim() || '';
+    },
+  };
+}
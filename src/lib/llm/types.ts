@@ -0,0 +1,31 @@
+export type PipelineStage = 'realSummary' | 'styleAnalysis' | 'decoy' | 'explanation';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface StageConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface CompletionRequest extends StageConfig {
+  stage: PipelineStage;
+  messages: ChatMessage[];
+  // Distinguishes otherwise identical requests, e.g. several decoys for one round
+  seed?: number;
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: string[];
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: CompletionRequest): Promise<string>;
+  // Only backends with a moderation endpoint implement this
+  moderate?(text: string): Promise<ModerationResult>;
+}
@@ -0,0 +1,51 @@
+import { DifficultyLevel, DifficultyMode } from '@/types/gossip';
+
+export type StyleFidelity = 'loose' | 'close' | 'exact';
+
+export interface DifficultySettings {
+  level: DifficultyLevel;
+  decoyCount: number;
+  decoyTemperature: number;
+  // How tightly decoys mirror the style analysis of the real story
+  styleFidelity: StyleFidelity;
+  // Whether decoys may reuse the real people, places and brands from the source post
+  reuseEntities: boolean;
+}
+
+const DIFFICULTY_SETTINGS: Record<DifficultyLevel, DifficultySettings> = {
+  easy: { level: 'easy', decoyCount: 1, decoyTemperature: 1.0, styleFidelity: 'loose', reuseEntities: false },
+  normal: { level: 'normal', decoyCount: 2, decoyTemperature: 0.8, styleFidelity: 'close', reuseEntities: false },
+  hard: { level: 'hard', decoyCount: 3, decoyTemperature: 0.7, styleFidelity: 'exact', reuseEntities: true },
+};
+
+const DIFFICULTY_MODES: DifficultyMode[] = ['easy', 'normal', 'hard', 'adaptive'];
+
+// Adaptive mode needs a few guesses before it trusts the player's accuracy
+const ADAPTIVE_MIN_RESULTS = 3;
+
+export function parseDifficultyMode(value: unknown): DifficultyMode | undefined {
+  return DIFFICULTY_MODES.includes(value as DifficultyMode) ? (value as DifficultyMode) : undefined;
+}
+
+export function getDifficultySettings(level: DifficultyLevel): DifficultySettings {
+  return DIFFICULTY_SETTINGS[level];
+}
+
+// Adaptive rounds step up or down one level from Normal based on rolling accuracy
+export function resolveDifficultyLevel(mode: DifficultyMode, recentResults: boolean[] = []): DifficultyLevel {
+  if (mode !== 'adaptive') {
+    return mode;
+  }
+  if (recentResults.length < ADAPTIVE_MIN_RESULTS) {
+    return 'normal';
+  }
+
+  const accuracy = recentResults.filter(Boolean).length / recentResults.length;
+  if (accuracy >= 0.8) {
+    return 'hard';
+  }
+  if (accuracy <= 0.4) {
+    return 'easy';
+  }
+  return 'normal';
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GossipGame } from '@/types/reddit';
+import { saveRound } from '@/lib/game/rounds';
+import { createGame } from '@/lib/game/store';
+import { takeRound } from '@/lib/pipeline/pool';
+import { serveRound } from './handler';
+
+vi.mock('@/lib/pipeline/pool', () => ({ takeRound: vi.fn() }));
+vi.mock('@/lib/game/rounds', () => ({ saveRound: vi.fn().mockResolvedValue(undefined) }));
+
+function generated(topic: string): GossipGame {
+  return {
+    topic,
+    source: { id: 'reddit', label: 'Reddit' },
+    difficulty: 'normal',
+    decoyAttempts: 1,
+    options: [
+      { content: 'The real story.', isReal: true },
+      { content: 'A made-up story.', isReal: false },
+    ],
+    correctIndex: 0,
+    isRevealed: false,
+  };
+}
+
+describe('serveRound', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('plays the game topic whatever topic the client sends', async () => {
+    vi.mocked(takeRound).mockImplementation(async options => generated(options.topic));
+    const game = createGame({ topic: 'Taylor Swift', mode: 'endless' });
+
+    const round = await serveRound({ topic: 'Elon Musk', gameId: game.id, params: new URLSearchParams() });
+
+    expect(vi.mocked(takeRound).mock.calls[0][0].topic).toBe('Taylor Swift');
+    expect(round.topic).toBe('Taylor Swift');
+  });
+
+  it('saves game rounds as soon as they are served, so skipped ones still get a permalink', async () => {
+    vi.mocked(takeRound).mockImplementation(async options => generated(options.topic));
+    const game = createGame({ topic: 'Taylor Swift', mode: 'endless' });
+
+    const round = await serveRound({ topic: 'Taylor Swift', gameId: game.id, params: new URLSearchParams() });
+
+    expect(vi.mocked(saveRound).mock.calls[0][0]).toMatchObject({ id: round.roundId, gameId: game.id });
+  });
+
+  it('plays the requested topic outside a game', async () => {
+    vi.mocked(takeRound).mockImplementation(async options => generated(options.topic));
+
+    const round = await serveRound({ topic: 'Elon Musk', params: new URLSearchParams() });
+
+    expect(round.topic).toBe('Elon Musk');
+    expect(round.game).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from '@/lib/errors';
+import { DEFAULT_LOCALE, parseLocale } from '@/lib/i18n/locales';
+import { getTrendingTopics } from '@/lib/trending';
+import { PublicRound } from '@/types/gossip';
+import {
+  GameSession,
+  StoredRound,
+  createRound,
+  getActiveGame,
+  pauseGame,
+  resumeGame,
+  toGameState,
+  toPublicRound,
+} from '@/lib/game/store';
+import { takeDailyRound } from '@/lib/game/daily';
+import { saveRound } from '@/lib/game/rounds';
+import { isApprovedOnlyForced, takeApprovedRound } from '@/lib/curation/bank';
+import { parseSourcesParam, parseSubredditList, resolveSources } from '@/lib/sources';
+import { ProgressListener, RoundOptions, clampDecoyCount } from '@/lib/pipeline';
+import { getDifficultySettings, parseDifficultyMode, resolveDifficultyLevel } from '@/lib/pipeline/difficulty';
+import { takeRound } from '@/lib/pipeline/pool';
+
+export async function fetchTopicSuggestion() {
+  const { topics } = await getTrendingTopics();
+  return topics[0].topic;
+}
+
+// Games carry their own difficulty, sources, subreddits and language; Adaptive follows the player's recent guesses
+export function resolveRoundOptions({ topic, game, params, defaultDecoyCount }: {
+  topic: string;
+  game?: GameSession;
+  params: URLSearchParams;
+  defaultDecoyCount?: number;
+}): RoundOptions {
+  const mode = game?.difficulty ?? parseDifficultyMode(params.get('difficulty'));
+  const difficulty = getDifficultySettings(resolveDifficultyLevel(mode ?? 'normal', game?.recentResults));
+  const decoysParam = Number(params.get('decoys'));
+  const decoyCount = Number.isFinite(decoysParam) && decoysParam > 0
+    ? clampDecoyCount(decoysParam)
+    : mode ? undefined : defaultDecoyCount;
+  const sourceIds = game?.sources.length ? game.sources : parseSourcesParam(params.get('sources'));
+  const subreddits = game ? game.subreddits : {
+    include: parseSubredditList(params.get('subreddits')),
+    exclude: parseSubredditList(params.get('excludeSubreddits')),
+  };
+
+  const locale = game?.locale ?? parseLocale(params.get('locale')) ?? DEFAULT_LOCALE;
+
+  return { topic, sources: resolveSources(sourceIds), difficulty, decoyCount, subreddits, locale };
+}
+
+// Curated games, and `approved=1` requests outside a game, only play rounds from the approved round bank
+function servesApprovedOnly(game: GameSession | undefined, params: URLSearchParams) {
+  if (game) {
+    return Boolean(game.approvedOnly);
+  }
+  return isApprovedOnlyForced() || params.get('approved') === '1';
+}
+
+// Generates (or takes from the pool, the approved bank or the day's stored set) one round and binds it to the game, if any
+export async function serveRound({ topic, gameId, params, defaultDecoyCount, onProgress }: {
+  topic: string;
+  gameId?: string;
+  params: URLSearchParams;
+  defaultDecoyCount?: number;
+  onProgress?: ProgressListener;
+}): Promise<PublicRound> {
+  // Fail fast before spending time on generation for a finished game
+  const activeGame = gameId ? getActiveGame(gameId) : undefined;
+  // Games always play their own topic, whatever the client sent, so scores land on the right leaderboard
+  if (activeGame) {
+    topic = activeGame.topic;
+  }
+  const options = resolveRoundOptions({ topic, game: activeGame, params, defaultDecoyCount });
+
+  // Waiting for generation shouldn't eat into the player's time
+  if (activeGame) {
+    pauseGame(activeGame);
+  }
+  let round: StoredRound;
+  try {
+    const game = activeGame?.daily
+      ? await takeDailyRound(activeGame, onProgress)
+      : servesApprovedOnly(activeGame, params)
+        ? await takeApprovedRound(topic, activeGame?.bankRounds)
+        : await takeRound(options, onProgress);
+    round = createRound({
+      topic,
+      source: game.source!,
+      difficulty: game.difficulty ?? options.difficulty.level,
+      decoyAttempts: game.decoyAttempts ?? 0,
+      stories: game.options,
+      gameId,
+      bankId: game.bankId,
+      generation: game.generation,
+    });
+  } finally {
+    if (activeGame) {
+      resumeGame(activeGame);
+    }
+  }
+
+  // Saving only matters for sharing later, so it never holds up the player. A game's round can't be checked
+  // from its permalink until it's settled, so saving it now doesn't give the answer away mid-game.
+  saveRound(round).catch(error => console.error('Error saving round:', error));
+
+  console.info(
+    `Served ${round.difficulty} round for "${topic}" from ${round.source.id} ` +
+    `(${activeGame?.difficulty ?? 'default'} mode, ${round.decoyAttempts} decoy attempts)`
+  );
+  return { ...toPublicRound(round), game: activeGame ? toGameState(activeGame) : undefined };
+}
+
+// Shared GET handler behind the round endpoints; routes only differ in the decoy count used without a difficulty
+export function createRoundHandler({ defaultDecoyCount }: { defaultDecoyCount: number }) {
+  return async function GET(request: Request) {
+    try {
+      const url = new URL(request.url);
+      const topic = url.searchParams.get('topic');
+      const gameId = url.searchParams.get('gameId') || undefined;
+
+      if (!topic) {
+        try {
+          const suggestion = await fetchTopicSuggestion();
+          return NextResponse.json({ error: 'Topic is required', suggestion }, { status: 400 });
+        } catch (error) {
+          console.error('Error fetching trending topic:', error);
+          return NextResponse.json({ error: 'Topic is required' }, { status: 400 });
+        }
+      }
+
+      const round = await serveRound({ topic, gameId, params: url.searchParams, defaultDecoyCount });
+      return NextResponse.json(round);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      console.error('Error:', error);
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Failed to generate gossip'
+      }, {
+        status: 500
+      });
+    }
+  };
+}
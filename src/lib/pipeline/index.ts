@@ -0,0 +1,88 @@
+import { RoundProgress } from '@/types/gossip';
+import { SubredditFilter } from '@/types/content';
+import { Locale } from '@/types/i18n';
+import { GossipGame } from '@/types/reddit';
+import { DEFAULT_LOCALE } from '@/lib/i18n/locales';
+import { getProvider, getStageConfig } from '@/lib/llm';
+import { ContentSource, resolveTopicQuery } from '@/lib/sources';
+import { DifficultySettings } from './difficulty';
+import { moderateTopic } from './moderation';
+import {
+  analyzeStyle,
+  explainStories,
+  generateDecoys,
+  PROMPT_VERSION,
+  selectSourcePost,
+  shuffleOptions,
+  summarizeRealPost,
+} from './stages';
+
+export const MIN_DECOYS = 1;
+export const MAX_DECOYS = 5;
+
+export interface RoundOptions {
+  topic: string;
+  sources: ContentSource[];
+  difficulty: DifficultySettings;
+  // Overrides the difficulty's decoy count when set
+  decoyCount?: number;
+  // Player-chosen subreddits; topic packs fill in their own when this is empty
+  subreddits?: SubredditFilter;
+  // Language the stories are written in; English when unset
+  locale?: Locale;
+}
+
+export type ProgressListener = (progress: RoundProgress) => void;
+
+export function clampDecoyCount(value: number) {
+  return Math.min(MAX_DECOYS, Math.max(MIN_DECOYS, Math.round(value)));
+}
+
+// topic check -> topic pack lookup -> source post selection (screened) -> real summary (moderated) -> style analysis
+// -> decoys + quality and safety gate -> reveal explanations -> shuffle
+export async function generateRound(
+  { topic, sources, difficulty, decoyCount, subreddits, locale }: RoundOptions,
+  onProgress: ProgressListener = () => undefined
+): Promise<GossipGame> {
+  moderateTopic(topic);
+  const query = await resolveTopicQuery(topic, subreddits);
+  const { source, post } = await selectSourcePost(query, sources);
+  onProgress({ type: 'source', source: { id: source.id, label: source.label } });
+  const realGossip = await summarizeRealPost(post, locale);
+  onProgress({ type: 'real' });
+  const styleAnalysis = await analyzeStyle(realGossip);
+  const { decoys, attempts } = await generateDecoys({
+    topic,
+    realGossip,
+    styleAnalysis,
+    sourceTitle: post.title,
+    count: clampDecoyCount(decoyCount ?? difficulty.decoyCount),
+    difficulty,
+    locale,
+    onDecoyReady: (ready, total) => onProgress({ type: 'decoy', ready, total }),
+  });
+
+  const explanations = await explainStories({ post, realGossip, decoys, locale });
+
+  const { options, correctIndex } = shuffleOptions([
+    { content: realGossip, isReal: true, sourceUrl: post.url, explanation: explanations.real },
+    ...decoys.map((content, index) => ({ content, isReal: false, explanation: explanations.decoys[index] })),
+  ]);
+
+  return {
+    topic,
+    source: { id: source.id, label: source.label, community: post.community },
+    difficulty: difficulty.level,
+    decoyAttempts: attempts,
+    generation: {
+      locale: locale ?? DEFAULT_LOCALE,
+      promptVersion: PROMPT_VERSION,
+      provider: getProvider().name,
+      model: getStageConfig('decoy').model,
+      generatedAt: Date.now(),
+    },
+    options,
+    correctIndex,
+    isRevealed: false,
+  };
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SourcePost } from '@/types/content';
+import { moderateText } from '@/lib/llm';
+import { ModerationError, checkDecoySafety, checkTextSafety, findBlockedTerm, isSafePost, moderateTopic } from './moderation';
+
+vi.mock('@/lib/llm', () => ({ moderateText: vi.fn() }));
+
+function post(overrides: Partial<SourcePost> = {}): SourcePost {
+  return {
+    id: 'abc',
+    title: 'Singer spotted at a Nashville studio',
+    selftext: '',
+    url: 'https://www.reddit.com/r/popculturechat/comments/abc',
+    score: 100,
+    num_comments: 10,
+    community: 'popculturechat',
+    source: 'reddit',
+    ...overrides,
+  };
+}
+
+describe('moderation', () => {
+  beforeEach(() => {
+    vi.mocked(moderateText).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  describe('findBlockedTerm', () => {
+    it('matches whole words and phrases only', () => {
+      expect(findBlockedTerm('Leaked Sex Tape rumours')).toBe('sex tape');
+      expect(findBlockedTerm('A nazi reference')).toBe('nazi');
+      expect(findBlockedTerm('Grape harvest in Napa')).toBeUndefined();
+    });
+
+    it('adds terms from GOSSIP_BLOCKLIST', () => {
+      vi.stubEnv('GOSSIP_BLOCKLIST', ' Spoilers , ');
+      expect(findBlockedTerm('No spoilers please')).toBe('spoilers');
+    });
+  });
+
+  describe('moderateTopic', () => {
+    it('rejects blocked topics with a 422', () => {
+      expect(() => moderateTopic('celebrity nudes')).toThrow(ModerationError);
+      expect(() => moderateTopic('celebrity nudes')).toThrow(expect.objectContaining({ status: 422 }));
+    });
+
+    it('accepts ordinary topics', () => {
+      expect(() => moderateTopic('Taylor Swift')).not.toThrow();
+    });
+  });
+
+  describe('isSafePost', () => {
+    it('keeps ordinary posts', () => {
+      expect(isSafePost(post())).toBe(true);
+    });
+
+    it('drops NSFW, removed and blocked-community posts', () => {
+      expect(isSafePost(post({ nsfw: true }))).toBe(false);
+      expect(isSafePost(post({ removed: true }))).toBe(false);
+      expect(isSafePost(post({ community: 'r/CelebNSFW' }))).toBe(false);
+    });
+
+    it('drops posts with blocked terms in the title or body', () => {
+      expect(isSafePost(post({ title: 'OnlyFans drama' }))).toBe(false);
+      expect(isSafePost(post({ selftext: 'Rumours of a terrorist plot' }))).toBe(false);
+    });
+
+    it('adds communities from GOSSIP_BLOCKED_SUBREDDITS', () => {
+      vi.stubEnv('GOSSIP_BLOCKED_SUBREDDITS', 'popculturechat');
+      expect(isSafePost(post())).toBe(false);
+    });
+  });
+
+  describe('checkTextSafety', () => {
+    it('reports blocked terms without calling the moderation model', async () => {
+      expect(await checkTextSafety('An onlyfans scandal')).toEqual([
+        { code: 'blocked', message: 'Do not mention "onlyfans"' },
+      ]);
+      expect(moderateText).not.toHaveBeenCalled();
+    });
+
+    it('reports text the moderation model flags', async () => {
+      vi.mocked(moderateText).mockResolvedValue({ flagged: true, categories: ['harassment'] });
+      expect(await checkTextSafety('Something mean')).toEqual([
+        { code: 'flagged', message: 'Keep it clean (flagged for: harassment)' },
+      ]);
+    });
+
+    it('passes clean text', async () => {
+      vi.mocked(moderateText).mockResolvedValue({ flagged: false, categories: [] });
+      expect(await checkTextSafety('The singer adopted a puppy.')).toEqual([]);
+    });
+  });
+
+  describe('checkDecoySafety', () => {
+    it('flags invented allegations by kind', async () => {
+      const issues = await checkDecoySafety('The actor was arrested after leaving rehab.');
+      expect(issues.map(issue => issue.code)).toEqual(['allegation', 'allegation']);
+      expect(issues[0].message).toContain('criminal');
+      expect(issues[1].message).toContain('medical');
+    });
+
+    it('passes harmless stories', async () => {
+      expect(await checkDecoySafety('The actor was seen buying a vintage guitar in Austin.')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { SourcePost } from '@/types/content';
+import { HttpError } from '@/lib/errors';
+import { moderateText } from '@/lib/llm';
+import { QualityIssue, QualityIssueCode } from './quality';
+
+export class ModerationError extends HttpError {
+  constructor(message: string) {
+    super(message, 422);
+    this.name = 'ModerationError';
+  }
+}
+
+// Extended with GOSSIP_BLOCKLIST; matched as whole words against topics, posts and generated text
+const DEFAULT_BLOCKLIST = [
+  'porn',
+  'nude',
+  'nudes',
+  'sex tape',
+  'onlyfans',
+  'rape',
+  'pedophile',
+  'child abuse',
+  'suicide',
+  'self harm',
+  'terrorist',
+  'nazi',
+];
+
+// Extended with GOSSIP_BLOCKED_SUBREDDITS
+const DEFAULT_BLOCKED_COMMUNITIES = ['nsfw', 'gonewild', 'celebnsfw', 'watchpeopledie', 'morbidreality'];
+
+// Made-up claims in these areas about real people are defamatory, however playful the tone
+const ALLEGATION_PATTERNS: { kind: string; pattern: RegExp }[] = [
+  {
+    kind: 'criminal',
+    pattern: /\b(arrest(ed|s)?|charged|indicted|convicted|jail(ed)?|prison|mugshot|police|crimes?|criminal|fraud|embezzl\w*|stole|stolen|theft|assault(ed)?|dui|drunk driving|murder\w*|abuse[ds]?|trafficking|laundering|smuggl\w*)\b/i,
+  },
+  {
+    kind: 'medical',
+    pattern: /\b(diagnos\w*|cancer|disease|illness|terminal(ly)? ill|rehab|overdos\w*|addict\w*|hospitali[sz]ed|pregnan\w*|miscarriage|surgery|breakdown|eating disorder)\b/i,
+  },
+  {
+    kind: 'sexual',
+    pattern: /\b(affair|cheat(ed|ing)?|sex(ual|ually)?|hook(ed)? up|sleeping with|harass\w*|std|naked)\b/i,
+  },
+];
+
+// Safety problems can't be kept as a "best effort" like the other quality issues
+export const SAFETY_ISSUE_CODES: QualityIssueCode[] = ['blocked', 'flagged', 'allegation'];
+
+function readList(name: string, defaults: string[]) {
+  const extra = (process.env[name] || '')
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean);
+  return [...defaults, ...extra];
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function findBlockedTerm(text: string) {
+  const lower = text.toLowerCase();
+  return readList('GOSSIP_BLOCKLIST', DEFAULT_BLOCKLIST).find(term =>
+    new RegExp(`\\b${escapeRegExp(term)}\\b`).test(lower)
+  );
+}
+
+export function moderateTopic(topic: string) {
+  if (findBlockedTerm(topic)) {
+    throw new ModerationError(`"${topic}" isn't something we make gossip about. Try another topic!`);
+  }
+}
+
+export function isSafePost(post: SourcePost) {
+  if (post.nsfw || post.removed) {
+    return false;
+  }
+  const community = post.community?.replace(/^r\//i, '').toLowerCase();
+  if (community && readList('GOSSIP_BLOCKED_SUBREDDITS', DEFAULT_BLOCKED_COMMUNITIES).includes(community)) {
+    return false;
+  }
+  return !findBlockedTerm(`${post.title}\n${post.selftext}`);
+}
+
+// Blocklist first, then the provider's moderation model when there is one
+export async function checkTextSafety(text: string): Promise<QualityIssue[]> {
+  const term = findBlockedTerm(text);
+  if (term) {
+    return [{ code: 'blocked', message: `Do not mention "${term}"` }];
+  }
+  const result = await moderateText(text);
+  if (result?.flagged) {
+    return [{ code: 'flagged', message: `Keep it clean (flagged for: ${result.categories.join(', ')})` }];
+  }
+  return [];
+}
+
+export async function checkDecoySafety(text: string): Promise<QualityIssue[]> {
+  const allegations: QualityIssue[] = ALLEGATION_PATTERNS
+    .filter(({ pattern }) => pattern.test(text))
+    .map(({ kind }) => ({
+      code: 'allegation',
+      message: `Do not invent ${kind} allegations about real people; keep the story harmless`,
+    }));
+  return [...allegations, ...(await checkTextSafety(text))];
+}
@@ -0,0 +1,160 @@
+import { RoundProgress } from '@/types/gossip';
+import { GossipGame } from '@/types/reddit';
+import { getFixtureMode } from '@/lib/fixtures';
+import { ProgressListener, RoundOptions, generateRound } from '@/lib/pipeline';
+
+// Rounds keep the progress they reported while generating, so the player who takes one still sees every stage
+interface PooledRound {
+  game: GossipGame;
+  progress: RoundProgress[];
+  createdAt: number;
+}
+
+interface PendingRound {
+  promise: Promise<GossipGame>;
+  progress: RoundProgress[];
+  listeners: Set<ProgressListener>;
+  claimed: boolean;
+}
+
+interface PoolEntry {
+  ready: PooledRound[];
+  pending: PendingRound[];
+  lastUsedAt: number;
+}
+
+const globalForPool = globalThis as typeof globalThis & { __gossaipRoundPool?: Map<string, PoolEntry> };
+const pools: Map<string, PoolEntry> = globalForPool.__gossaipRoundPool ??= new Map();
+
+function readSetting(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+// Background generation would reorder seeded choices, so recording and replaying skip the pool
+function getPoolDepth() {
+  return getFixtureMode() === 'live' ? Math.max(0, readSetting('GOSSIP_POOL_DEPTH', 2)) : 0;
+}
+
+function getPoolTtlMs() {
+  return readSetting('GOSSIP_POOL_TTL_SECONDS', 600) * 1000;
+}
+
+function poolKey({ topic, sources, difficulty, decoyCount, subreddits, locale }: RoundOptions) {
+  return [
+    topic.trim().toLowerCase(),
+    sources.map(source => source.id).sort().join('+'),
+    difficulty.level,
+    decoyCount ?? difficulty.decoyCount,
+    [...(subreddits?.include || [])].sort().join('+'),
+    [...(subreddits?.exclude || [])].sort().join('+'),
+    locale ?? 'en',
+  ].join('|');
+}
+
+function getEntry(key: string) {
+  let entry = pools.get(key);
+  if (!entry) {
+    entry = { ready: [], pending: [], lastUsedAt: Date.now() };
+    pools.set(key, entry);
+  }
+  return entry;
+}
+
+function pruneStale(now = Date.now()) {
+  const ttl = getPoolTtlMs();
+  pools.forEach((entry, key) => {
+    entry.ready = entry.ready.filter(round => round.createdAt + ttl > now);
+    if (entry.ready.length === 0 && entry.pending.length === 0 && entry.lastUsedAt + ttl < now) {
+      pools.delete(key);
+    }
+  });
+}
+
+function startGeneration(entry: PoolEntry, options: RoundOptions) {
+  const progress: RoundProgress[] = [];
+  const listeners = new Set<ProgressListener>();
+  const pending: PendingRound = {
+    promise: generateRound(options, event => {
+      progress.push(event);
+      // A player's listener failing must not break the round for the pool
+      listeners.forEach(listener => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Error reporting round progress:', error);
+        }
+      });
+    }),
+    progress,
+    listeners,
+    claimed: false,
+  };
+  entry.pending.push(pending);
+
+  pending.promise
+    .then(game => {
+      if (!pending.claimed) {
+        entry.ready.push({ game, progress, createdAt: Date.now() });
+      }
+    })
+    .catch(error => console.error('Error prefetching round:', error))
+    .finally(() => {
+      entry.pending = entry.pending.filter(item => item !== pending);
+    });
+
+  return pending;
+}
+
+// Top the pool up to its depth, counting rounds already in flight so players sharing a topic
+// never trigger duplicate generation
+export function warmRoundPool(options: RoundOptions) {
+  const depth = getPoolDepth();
+  if (depth === 0) {
+    return;
+  }
+  pruneStale();
+  const entry = getEntry(poolKey(options));
+  const unclaimedPending = entry.pending.filter(pending => !pending.claimed).length;
+  for (let i = entry.ready.length + unclaimedPending; i < depth; i++) {
+    startGeneration(entry, options);
+  }
+}
+
+export async function takeRound(options: RoundOptions, onProgress?: ProgressListener): Promise<GossipGame> {
+  if (getPoolDepth() === 0) {
+    return generateRound(options, onProgress);
+  }
+
+  pruneStale();
+  const entry = getEntry(poolKey(options));
+  entry.lastUsedAt = Date.now();
+
+  const ready = entry.ready.shift();
+  // Prefer a round that is already being generated over starting another one
+  const pending = ready ? undefined : entry.pending.find(item => !item.claimed);
+  if (pending) {
+    pending.claimed = true;
+  }
+
+  warmRoundPool(options);
+
+  if (ready) {
+    ready.progress.forEach(event => onProgress?.(event));
+    return ready.game;
+  }
+  if (pending) {
+    // Catch up on the stages already done, then follow the rest as they happen
+    pending.progress.forEach(event => onProgress?.(event));
+    if (onProgress) {
+      pending.listeners.add(onProgress);
+    }
+    try {
+      return await pending.promise;
+    } catch (error) {
+      // The prefetch failed, so generate this player's round directly
+      console.error('Error waiting for prefetched round:', error);
+    }
+  }
+  return generateRound(options, onProgress);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { checkDecoy, countSentences } from './quality';
+
+const realGossip = 'The singer was spotted leaving a studio in Nashville at 3am. Fans think a surprise album is coming.';
+const sourceTitle = 'Singer seen leaving Nashville studio in the middle of the night';
+
+function codes(decoy: string, otherDecoys?: string[]) {
+  return checkDecoy(decoy, { realGossip, sourceTitle, otherDecoys }).map(issue => issue.code);
+}
+
+describe('countSentences', () => {
+  it('counts sentences ending in any punctuation', () => {
+    expect(countSentences('One. Two! Three?')).toBe(3);
+    expect(countSentences('No full stop at the end')).toBe(1);
+    expect(countSentences('')).toBe(0);
+  });
+
+  it('does not split on decimal points', () => {
+    expect(countSentences('The album costs 9.99 dollars.')).toBe(1);
+  });
+});
+
+describe('checkDecoy', () => {
+  it('passes a decoy that reads like the real story', () => {
+    expect(codes('The actor was seen buying a ring at a jeweller in Paris. Insiders say a proposal is planned.')).toEqual([]);
+  });
+
+  it('flags decoys much shorter or longer than the real story', () => {
+    expect(codes('The actor bought a ring.')).toContain('length');
+    expect(codes(`${realGossip} ${realGossip}`)).toContain('length');
+  });
+
+  it('flags a different number of sentences', () => {
+    expect(codes('The actor bought a ring. He paid cash. It was huge. Paris was sunny. Fans cheered.')).toContain('sentences');
+  });
+
+  it('flags labels, quotes and markdown', () => {
+    expect(codes('Story 2: The actor was seen buying a ring in Paris. Insiders say a proposal is planned.')).toContain('label');
+    expect(codes('"The actor was seen buying a ring at a jeweller in Paris. Insiders say a proposal is planned."')).toContain('label');
+    expect(codes('**The actor** was seen buying a ring at a jeweller in Paris. Insiders say a proposal is planned.')).toContain('label');
+  });
+
+  it('flags rewordings of the real story or another decoy', () => {
+    expect(codes('The singer was spotted leaving a studio in Nashville at 4am. Fans think a surprise album is near.')).toContain('duplicate');
+    const other = 'The actor was seen buying a ring at a jeweller in Paris. Insiders say a proposal is planned.';
+    expect(codes('The actor was seen buying a ring at a jeweller in Rome. Insiders say a proposal is planned.', [other])).toContain('duplicate');
+  });
+
+  it('flags long phrases copied from the source title', () => {
+    expect(codes('A rapper was seen leaving Nashville studio in the middle of the night. Nobody knows why.')).toContain('title-copy');
+  });
+});
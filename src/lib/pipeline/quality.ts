@@ -0,0 +1,108 @@
+export type QualityIssueCode =
+  | 'length'
+  | 'sentences'
+  | 'label'
+  | 'duplicate'
+  | 'title-copy'
+  // Safety issues, raised by the moderation stage
+  | 'blocked'
+  | 'flagged'
+  | 'allegation';
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;
+}
+
+// Decoys outside this length ratio to the real story are easy to spot
+const MIN_LENGTH_RATIO = 0.6;
+const MAX_LENGTH_RATIO = 1.5;
+const DUPLICATE_SIMILARITY = 0.6;
+const MAX_COPIED_TITLE_WORDS = 5;
+
+const LABEL_PATTERNS = [
+  /^(story|gossip|fake|fictional|decoy|option|version)[\s#\d]*[:.)-]/i,
+  /^here(?:'s| is)\b[^.!?]*:/i,
+  /\b(story|option|gossip)\s*#?\d\b/i,
+  /^["'“”‘’]|["'“”‘’]$/,
+  /\*\*|__|^#+\s/,
+];
+
+function words(text: string) {
+  return text.toLowerCase().match(/[a-z0-9\u00c0-\u024f']+/g) || [];
+}
+
+export function countSentences(text: string) {
+  return text.split(/[.!?]+(?:\s|$)/).filter(part => part.trim().length > 0).length;
+}
+
+// Jaccard similarity over word sets; cheap and good enough to catch paraphrased copies
+function similarity(a: string, b: string) {
+  const setA = new Set(words(a));
+  const setB = new Set(words(b));
+  if (setA.size === 0 || setB.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  setA.forEach(word => {
+    if (setB.has(word)) {
+      shared += 1;
+    }
+  });
+  return shared / (setA.size + setB.size - shared);
+}
+
+function longestSharedRun(text: string, title: string) {
+  const textWords = words(text);
+  const titleWords = words(title);
+  let longest = 0;
+  for (let i = 0; i < titleWords.length; i++) {
+    for (let j = 0; j < textWords.length; j++) {
+      let run = 0;
+      while (titleWords[i + run] !== undefined && titleWords[i + run] === textWords[j + run]) {
+        run += 1;
+      }
+      longest = Math.max(longest, run);
+    }
+  }
+  return longest;
+}
+
+export function checkDecoy(decoy: string, { realGossip, sourceTitle, otherDecoys = [] }: {
+  realGossip: string;
+  sourceTitle: string;
+  otherDecoys?: string[];
+}): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+
+  const lengthRatio = decoy.length / Math.max(1, realGossip.length);
+  if (lengthRatio < MIN_LENGTH_RATIO || lengthRatio > MAX_LENGTH_RATIO) {
+    issues.push({
+      code: 'length',
+      message: `Write about ${realGossip.length} characters (this one has ${decoy.length})`,
+    });
+  }
+
+  const realSentences = countSentences(realGossip);
+  const decoySentences = countSentences(decoy);
+  if (Math.abs(realSentences - decoySentences) > 1) {
+    issues.push({
+      code: 'sentences',
+      message: `Use ${realSentences} sentences (this one has ${decoySentences})`,
+    });
+  }
+
+  if (LABEL_PATTERNS.some(pattern => pattern.test(decoy))) {
+    issues.push({ code: 'label', message: 'Remove labels, numbering, quotes and formatting' });
+  }
+
+  if ([realGossip, ...otherDecoys].some(other => similarity(decoy, other) >= DUPLICATE_SIMILARITY)) {
+    issues.push({ code: 'duplicate', message: 'Tell a clearly different story, not a rewording' });
+  }
+
+  if (longestSharedRun(decoy, sourceTitle) > MAX_COPIED_TITLE_WORDS) {
+    issues.push({ code: 'title-copy', message: 'Do not copy phrases from the original post title' });
+  }
+
+  return issues;
+}
@@ -0,0 +1,328 @@
+import { SourcePost, TopicQuery } from '@/types/content';
+import { Locale } from '@/types/i18n';
+import { GossipOption } from '@/types/reddit';
+import { HttpError } from '@/lib/errors';
+import { DEFAULT_LOCALE, getLanguageName } from '@/lib/i18n/locales';
+import { generateText } from '@/lib/llm';
+import { pickRandom, shuffle } from '@/lib/random';
+import { ContentSource, fetchSourcePosts } from '@/lib/sources';
+import { DifficultySettings, StyleFidelity } from './difficulty';
+import { QualityIssue, checkDecoy } from './quality';
+import {
+  ModerationError,
+  SAFETY_ISSUE_CODES,
+  checkDecoySafety,
+  checkTextSafety,
+  findBlockedTerm,
+  isSafePost,
+} from './moderation';
+
+// Each decoy gets its own angle so parallel generations don't converge on the same story
+const DECOY_ANGLES = [
+  'an unexpected plan or announcement',
+  'a behind-the-scenes disagreement',
+  'a surprising public sighting',
+  'a rumored collaboration or partnership',
+  'a leaked detail that fans are decoding',
+];
+
+const MAX_DECOY_ATTEMPTS = 3;
+
+// Bump whenever the wording of a prompt below changes; saved and exported rounds record the version that wrote them
+export const PROMPT_VERSION = 1;
+
+const STYLE_FIDELITY_INSTRUCTIONS: Record<StyleFidelity, string> = {
+  loose: 'Loosely follow the general tone of the example',
+  close: 'Match the tone, structure and gossip elements of the example',
+  exact: 'Mirror the example closely: same length, sentence rhythm, tone and kind of details',
+};
+
+// Players read every story in their language, even when the source post is in English
+function languageRequirement(locale: Locale) {
+  return locale === DEFAULT_LOCALE
+    ? ''
+    : `\n- Write in ${getLanguageName(locale)}, even though the post may be in another language; keep names as they are`;
+}
+
+// Strip the numbering, labels and quotes models like to wrap stories in
+export function cleanStory(text: string) {
+  return text
+    .trim()
+    .replace(/^\d+[\s.)-]*/, '') // Remove any numbering
+    .replace(/^["']|["']$/g, '') // Remove any quotes
+    .replace(/^(Story|Gossip)[\s\d]*[:.-]\s*/i, '') // Remove any story prefixes
+    .trim();
+}
+
+export async function selectSourcePost(query: TopicQuery, sources: ContentSource[]) {
+  // NSFW, removed and blocked posts never make it into a round
+  const { source, posts } = await fetchSourcePosts(query, sources, isSafePost);
+
+  // Select a random post from the top 5 most engaging posts, weighted by how well they match the topic
+  const rank = (post: SourcePost) => ((post.score || 0) * 1.5 + (post.num_comments || 0) + 1) * (post.relevance ?? 1);
+  const topPosts = [...posts]
+    .sort((a, b) => rank(b) - rank(a))
+    .slice(0, 5);
+
+  const post = pickRandom(topPosts);
+  if (!post) {
+    throw new HttpError('No suitable posts found', 404);
+  }
+
+  return { source, post };
+}
+
+export async function summarizeRealPost(post: SourcePost, locale: Locale = DEFAULT_LOCALE) {
+  const summary = await generateText('realSummary', [
+    {
+      role: "system",
+      content: "You are a gossip columnist. Create a short, engaging, and playful summary of news and stories in a natural gossip style. Keep it concise, around 2-3 sentences. Do not use any quotes or special formatting. Write it as if it's a real celebrity gossip piece. Make it sound natural and engaging."
+    },
+    {
+      role: "user",
+      content: `Write a short, playful gossip-style paragraph about this post. Make it sound like a real celebrity gossip piece in 2-3 sentences:
+
+Title: ${post.title}
+Content: ${post.selftext?.substring(0, 500) || post.title}
+
+Requirements:
+- Write in natural gossip style
+- No quotes or special formatting
+- Make it engaging and playful
+- Keep it to 2-3 sentences
+- Only use facts from the post; do not add claims about anyone${languageRequirement(locale)}`
+    }
+  ]);
+
+  const realGossip = cleanStory(summary);
+  if (!realGossip) {
+    throw new Error('Failed to summarize the source post');
+  }
+  if ((await checkTextSafety(realGossip)).length > 0) {
+    throw new ModerationError('The story found for this topic was rejected by the content policy');
+  }
+  return realGossip;
+}
+
+export async function analyzeStyle(realGossip: string) {
+  return generateText('styleAnalysis', [
+    {
+      role: "system",
+      content: "Analyze the given gossip and extract key elements like names, places, events, and writing style patterns."
+    },
+    {
+      role: "user",
+      content: `Analyze this gossip and list key elements that make it sound authentic:
+${realGossip}`
+    }
+  ]);
+}
+
+export async function generateDecoy({ topic, realGossip, styleAnalysis, index, difficulty, locale = DEFAULT_LOCALE, attempt = 0, retry }: {
+  topic: string;
+  realGossip: string;
+  styleAnalysis: string;
+  index: number;
+  difficulty: DifficultySettings;
+  locale?: Locale;
+  attempt?: number;
+  retry?: { previous: string; issues: QualityIssue[] };
+}) {
+  const entityInstruction = difficulty.reuseEntities
+    ? 'Reuse the real names, places and brands from the example'
+    : 'Do not reuse the specific names, places or brands from the example; invent fresh details';
+
+  const angle = DECOY_ANGLES[index % DECOY_ANGLES.length];
+  const retryNote = retry
+    ? `\n\nYour previous attempt was rejected:\n${retry.previous}\n\nFix these problems:\n${retry.issues.map(issue => `- ${issue.message}`).join('\n')}`
+    : '';
+  const decoy = await generateText('decoy', [
+    {
+      role: "system",
+      content: "You are a gossip columnist. Generate one short, fictional but believable gossip story. The story should be 2-3 sentences and match the style of the real gossip. Do not use any numbering, prefixes, or quotes. Do not start with phrases like 'Gossip Story' or 'Story'. Just write the gossip directly."
+    },
+    {
+      role: "user",
+      content: `Create a fictional gossip story about "${topic}" that matches this style:
+
+Example of the style to match:
+${realGossip}
+
+Key style elements: ${styleAnalysis}
+
+Angle for this story: ${angle}
+
+Requirements:
+- Write the story in 2-3 sentences
+- Make it sound like real celebrity gossip
+- Do not use any numbering, labels or quotes
+- ${STYLE_FIDELITY_INSTRUCTIONS[difficulty.styleFidelity]}
+- ${entityInstruction}
+- Use different events than the example
+- Make it tricky to distinguish from the real one
+- Never invent criminal, medical or sexual allegations (arrests, illnesses, rehab, pregnancies, affairs...) about real people; stick to harmless plans, sightings, collaborations and fan theories${languageRequirement(locale)}${retryNote}`
+    }
+  ], { seed: index + attempt * DECOY_ANGLES.length, temperature: difficulty.decoyTemperature });
+
+  return cleanStory(decoy.split('\n\n')[0]);
+}
+
+interface DecoyParams {
+  topic: string;
+  realGossip: string;
+  styleAnalysis: string;
+  sourceTitle: string;
+  difficulty: DifficultySettings;
+  locale?: Locale;
+}
+
+function countSafetyIssues(issues: QualityIssue[]) {
+  return issues.filter(issue => SAFETY_ISSUE_CODES.includes(issue.code)).length;
+}
+
+// Quality gate: regenerate a decoy with feedback until it has no obvious tells.
+// Unsafe decoys are never kept, even as a last resort.
+async function generateCheckedDecoy(params: DecoyParams, index: number, otherDecoys: string[]) {
+  let best: { text: string; issues: QualityIssue[] } | undefined;
+  let attempts = 0;
+
+  for (let attempt = 0; attempt < MAX_DECOY_ATTEMPTS; attempt++) {
+    attempts += 1;
+    const text = await generateDecoy({
+      ...params,
+      index,
+      attempt,
+      retry: best ? { previous: best.text, issues: best.issues } : undefined,
+    });
+    const issues: QualityIssue[] = text
+      ? [
+        ...checkDecoy(text, { realGossip: params.realGossip, sourceTitle: params.sourceTitle, otherDecoys }),
+        ...(await checkDecoySafety(text)),
+      ]
+      : [{ code: 'length', message: 'Write the story' }];
+
+    const isBetter = !best
+      || countSafetyIssues(issues) < countSafetyIssues(best.issues)
+      || (countSafetyIssues(issues) === countSafetyIssues(best.issues) && issues.length < best.issues.length);
+    if (text && isBetter) {
+      best = { text, issues };
+    }
+    if (text && issues.length === 0) {
+      break;
+    }
+  }
+
+  if (!best) {
+    throw new Error('Failed to generate fake gossip stories');
+  }
+  if (countSafetyIssues(best.issues) > 0) {
+    throw new ModerationError(`Couldn't write safe fake stories about this topic (${best.issues.map(issue => issue.code).join(', ')})`);
+  }
+  if (best.issues.length > 0) {
+    console.warn(`Decoy kept after ${attempts} attempts with issues: ${best.issues.map(issue => issue.code).join(', ')}`);
+  }
+  return { text: best.text, attempts };
+}
+
+export async function generateDecoys({ count, onDecoyReady, ...params }: DecoyParams & {
+  count: number;
+  onDecoyReady?: (ready: number, total: number) => void;
+}) {
+  // First pass runs in parallel, so decoys are only checked against the real story
+  let ready = 0;
+  const firstPass = await Promise.all(
+    Array.from({ length: count }, async (_, index) => {
+      const result = await generateCheckedDecoy(params, index, []);
+      ready += 1;
+      onDecoyReady?.(ready, count);
+      return result;
+    })
+  );
+  let attempts = firstPass.reduce((total, result) => total + result.attempts, 0);
+
+  // Second pass replaces decoys that ended up too close to an earlier one
+  const decoys: string[] = [];
+  for (let index = 0; index < firstPass.length; index++) {
+    let decoy = firstPass[index].text;
+    if (checkDecoy(decoy, { ...params, otherDecoys: decoys }).some(issue => issue.code === 'duplicate')) {
+      const replacement = await generateCheckedDecoy(params, index + count, decoys);
+      attempts += replacement.attempts;
+      decoy = replacement.text;
+    }
+    decoys.push(decoy);
+  }
+
+  return { decoys, attempts };
+}
+
+function describePost(post: SourcePost) {
+  return `Post title: ${post.title}
+Post content: ${post.selftext?.substring(0, 500) || '(title only)'}`;
+}
+
+async function explainReal(post: SourcePost, realGossip: string, locale: Locale) {
+  return generateText('explanation', [
+    {
+      role: "system",
+      content: "You explain the answers of a gossip quiz where players spot the one real story among fakes. Be brief, concrete and friendly."
+    },
+    {
+      role: "user",
+      content: `This gossip story was written from a real post.
+
+${describePost(post)}
+
+Story: ${realGossip}
+
+In 1-2 short sentences, say which facts in the story come straight from the post.${languageRequirement(locale)}`
+    }
+  ]);
+}
+
+async function explainDecoy(post: SourcePost, decoy: string, locale: Locale) {
+  return generateText('explanation', [
+    {
+      role: "system",
+      content: "You explain the answers of a gossip quiz where players spot the one real story among fakes. Be brief, concrete and friendly."
+    },
+    {
+      role: "user",
+      content: `This gossip story is fake; it was invented to sit next to a story written from the real post below.
+
+${describePost(post)}
+
+Fake story: ${decoy}
+
+In 1-2 short sentences, point out which details were invented and how they differ from the real post, so the player gets better at spotting fakes.${languageRequirement(locale)}`
+    }
+  ]);
+}
+
+// Explanations are a bonus for the reveal: a failed or unsafe one is left out rather than failing the round
+async function safeExplanation(explain: () => Promise<string>) {
+  try {
+    const text = cleanStory(await explain());
+    return text && !findBlockedTerm(text) ? text : undefined;
+  } catch (error) {
+    console.error('Error explaining story:', error);
+    return undefined;
+  }
+}
+
+export async function explainStories({ post, realGossip, decoys, locale = DEFAULT_LOCALE }: {
+  post: SourcePost;
+  realGossip: string;
+  decoys: string[];
+  locale?: Locale;
+}) {
+  const [real, ...decoyExplanations] = await Promise.all([
+    safeExplanation(() => explainReal(post, realGossip, locale)),
+    ...decoys.map(decoy => safeExplanation(() => explainDecoy(post, decoy, locale))),
+  ]);
+  return { real, decoys: decoyExplanations };
+}
+
+export function shuffleOptions(options: GossipOption[]) {
+  const shuffled = shuffle(options);
+  return { options: shuffled, correctIndex: shuffled.findIndex(option => option.isReal) };
+}
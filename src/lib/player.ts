@@ -0,0 +1,25 @@
+import { randomUUID } from 'crypto';
+import { cookies } from 'next/headers';
+
+const PLAYER_COOKIE = 'gossaip_player';
+const PLAYER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// Anonymous player id kept in a cookie, so once-a-day limits work without accounts
+export function getPlayerId() {
+  return cookies().get(PLAYER_COOKIE)?.value;
+}
+
+export function getOrCreatePlayerId() {
+  const existing = getPlayerId();
+  if (existing) {
+    return existing;
+  }
+  const playerId = randomUUID();
+  cookies().set(PLAYER_COOKIE, playerId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: PLAYER_COOKIE_MAX_AGE,
+  });
+  return playerId;
+}
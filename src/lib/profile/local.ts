@@ -0,0 +1,124 @@
+import { GameSessionState } from '@/types/gossip';
+import { GameRecord, GuessRecord, PlayerProfile } from '@/types/profile';
+
+// Browser-side half of player profiles: everything is kept in localStorage, and syncing is opt-in
+const PROFILE_KEY = 'gossaip:profile';
+const SYNC_KEY = 'gossaip:profile-sync';
+
+function saveProfile(profile: PlayerProfile) {
+  localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  return profile;
+}
+
+export function loadProfile(): PlayerProfile {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null');
+    if (stored && typeof stored.id === 'string' && Array.isArray(stored.games)) {
+      return stored;
+    }
+  } catch (error) {
+    console.error('Error reading profile:', error);
+  }
+  return saveProfile({ id: crypto.randomUUID(), games: [], updatedAt: new Date().toISOString() });
+}
+
+// Keeps the game's summary in step with the server's numbers, creating the record on first sight
+function updateGame(profile: PlayerProfile, game: GameSessionState): GameRecord {
+  const now = new Date().toISOString();
+  const existing = profile.games.find(record => record.id === game.gameId);
+  const record: GameRecord = {
+    id: game.gameId,
+    topic: game.topic,
+    mode: game.mode,
+    difficulty: game.difficulty,
+    score: game.score,
+    points: game.points,
+    attempts: game.attempts,
+    bestStreak: game.bestStreak,
+    daily: game.daily,
+    startedAt: existing?.startedAt ?? now,
+    updatedAt: now,
+    guesses: existing?.guesses ?? [],
+  };
+  profile.games = [...profile.games.filter(other => other.id !== game.gameId), record];
+  profile.updatedAt = now;
+  return record;
+}
+
+export function recordGuess(game: GameSessionState, guess: GuessRecord) {
+  const profile = loadProfile();
+  const record = updateGame(profile, game);
+  if (!record.guesses.some(other => other.roundId === guess.roundId)) {
+    record.guesses.push(guess);
+  }
+  return saveProfile(profile);
+}
+
+export function recordGame(game: GameSessionState) {
+  const profile = loadProfile();
+  updateGame(profile, game);
+  return saveProfile(profile);
+}
+
+export function isSyncEnabled() {
+  return localStorage.getItem(SYNC_KEY) === 'on';
+}
+
+export function setSyncEnabled(enabled: boolean) {
+  if (enabled) {
+    localStorage.setItem(SYNC_KEY, 'on');
+  } else {
+    localStorage.removeItem(SYNC_KEY);
+  }
+}
+
+// Shown on the stats page once the profile has synced; entering it on another device restores the profile there
+export function getSyncCode(profile: PlayerProfile) {
+  return profile.syncToken ? `${profile.id}.${profile.syncToken}` : undefined;
+}
+
+function parseSyncCode(code: string) {
+  const [id, token] = code.trim().split('.');
+  if (!id || !token) {
+    throw new Error('That sync code is incomplete');
+  }
+  return { id, token };
+}
+
+function authorize(token: string | undefined): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+async function pushProfile(id: string, token: string | undefined, games: GameRecord[]) {
+  const response = await fetch(`/api/profiles/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...authorize(token) },
+    body: JSON.stringify({ games }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to sync profile');
+  }
+  // The server only sends the token back on the first sync
+  const profile = data as PlayerProfile;
+  return saveProfile({ ...profile, syncToken: profile.syncToken ?? token });
+}
+
+// Uploads this browser's games and keeps the merged profile the server sends back
+export async function syncProfile() {
+  const profile = loadProfile();
+  return pushProfile(profile.id, profile.syncToken, profile.games);
+}
+
+// Switches this browser to a profile synced from another device, bringing the games played here along
+export async function restoreProfile(code: string) {
+  const { id, token } = parseSyncCode(code);
+  const response = await fetch(`/api/profiles/${encodeURIComponent(id)}`, { headers: authorize(token) });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to find profile');
+  }
+  const profile = await pushProfile(id, token, loadProfile().games);
+  setSyncEnabled(true);
+  return profile;
+}
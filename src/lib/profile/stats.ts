@@ -0,0 +1,60 @@
+import { DifficultyLevel } from '@/types/gossip';
+import { GuessRecord, PlayerProfile, PlayerStats, StatLine } from '@/types/profile';
+
+const DIFFICULTY_ORDER: DifficultyLevel[] = ['easy', 'normal', 'hard'];
+
+function accuracyOf(correct: number, attempts: number) {
+  return attempts > 0 ? Math.round((correct / attempts) * 100) : 0;
+}
+
+// Groups guesses case-insensitively, labelled the way the key was first written; busiest first
+function groupGuesses(items: { key: string; guess: GuessRecord }[]): StatLine[] {
+  const lines = new Map<string, StatLine>();
+  items.forEach(({ key, guess }) => {
+    const id = key.trim().toLowerCase();
+    const line = lines.get(id) ?? { key: key.trim(), correct: 0, attempts: 0, accuracy: 0 };
+    line.attempts += 1;
+    line.correct += guess.isCorrect ? 1 : 0;
+    lines.set(id, line);
+  });
+  return Array.from(lines.values())
+    .map(line => ({ ...line, accuracy: accuracyOf(line.correct, line.attempts) }))
+    .sort((a, b) => b.attempts - a.attempts || b.accuracy - a.accuracy);
+}
+
+// Accuracy counts the stories the player actually picked; rounds skipped or timed out only show in per-game history
+export function computeStats(profile: PlayerProfile): PlayerStats {
+  const games = [...profile.games].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  const guesses = games.flatMap(game => game.guesses.map(guess => ({ game, guess })));
+  const correct = guesses.filter(({ guess }) => guess.isCorrect).length;
+  const timed = guesses.filter(({ guess }) => guess.answerSeconds > 0);
+
+  return {
+    games: games.length,
+    guesses: guesses.length,
+    correct,
+    accuracy: accuracyOf(correct, guesses.length),
+    totalPoints: games.reduce((total, game) => total + game.points, 0),
+    bestPoints: games.reduce((best, game) => Math.max(best, game.points), 0),
+    bestStreak: games.reduce((best, game) => Math.max(best, game.bestStreak), 0),
+    averageAnswerSeconds: timed.length > 0
+      ? Math.round((timed.reduce((total, { guess }) => total + guess.answerSeconds, 0) / timed.length) * 10) / 10
+      : null,
+    byTopic: groupGuesses(guesses.map(({ game, guess }) => ({ key: game.topic, guess }))),
+    byDifficulty: groupGuesses(guesses.map(({ guess }) => ({ key: guess.difficulty, guess })))
+      .sort((a, b) => DIFFICULTY_ORDER.indexOf(a.key as DifficultyLevel) - DIFFICULTY_ORDER.indexOf(b.key as DifficultyLevel)),
+    bySubreddit: groupGuesses(
+      guesses
+        .filter(({ guess }) => guess.community?.startsWith('r/'))
+        .map(({ guess }) => ({ key: guess.community!, guess }))
+    ),
+    history: games.map(game => ({
+      gameId: game.id,
+      topic: game.topic,
+      mode: game.mode,
+      accuracy: accuracyOf(game.score, game.attempts),
+      points: game.points,
+      playedAt: game.startedAt,
+    })),
+  };
+}
@@ -0,0 +1,113 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { GameRecord, GuessRecord, PlayerProfile } from '@/types/profile';
+import { HttpError } from '@/lib/errors';
+import { getCollection } from '@/lib/storage';
+
+const MAX_GAMES = 1000;
+const MAX_GUESSES_PER_GAME = 200;
+// Profile ids are UUIDs made in the browser; anything id-like is accepted so they stay opaque
+const PROFILE_ID = /^[A-Za-z0-9-]{8,64}$/;
+
+// The sync token is only kept hashed; the browser that first synced the profile holds the token itself
+type StoredProfile = Omit<PlayerProfile, 'syncToken'> & { tokenHash?: string };
+
+const profiles = () => getCollection<StoredProfile>('profiles');
+
+export function parseProfileId(value: string) {
+  if (!PROFILE_ID.test(value)) {
+    throw new HttpError('Invalid profile id', 400);
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isGuessRecord(value: unknown): value is GuessRecord {
+  return isObject(value)
+    && typeof value.roundId === 'string'
+    && typeof value.difficulty === 'string'
+    && typeof value.isCorrect === 'boolean'
+    && typeof value.answerSeconds === 'number'
+    && typeof value.points === 'number';
+}
+
+function isGameRecord(value: unknown): value is GameRecord {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.topic === 'string'
+    && typeof value.mode === 'string'
+    && typeof value.score === 'number'
+    && typeof value.points === 'number'
+    && typeof value.attempts === 'number'
+    && typeof value.startedAt === 'string'
+    && Array.isArray(value.guesses);
+}
+
+// Stats are the player's own, so uploads are only checked for shape, not replayed against the games
+function parseGames(value: unknown): GameRecord[] {
+  if (!Array.isArray(value)) {
+    throw new HttpError('Games must be a list', 400);
+  }
+  return value.filter(isGameRecord).map(game => ({
+    ...game,
+    topic: game.topic.slice(0, 100),
+    guesses: game.guesses.filter(isGuessRecord).slice(0, MAX_GUESSES_PER_GAME),
+  }));
+}
+
+// Games from both sides are kept; when both have the same game, the copy with more guesses recorded wins
+function mergeGames(stored: GameRecord[], incoming: GameRecord[]) {
+  const games = new Map(stored.map(game => [game.id, game]));
+  incoming.forEach(game => {
+    const existing = games.get(game.id);
+    if (!existing || game.guesses.length > existing.guesses.length || game.attempts > existing.attempts) {
+      games.set(game.id, game);
+    }
+  });
+  return Array.from(games.values())
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+    .slice(-MAX_GAMES);
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function hasToken(profile: StoredProfile, token: string | undefined) {
+  if (!profile.tokenHash || !token) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(hashToken(token)), Buffer.from(profile.tokenHash));
+}
+
+function toPlayerProfile({ id, games, updatedAt }: StoredProfile): PlayerProfile {
+  return { id, games, updatedAt };
+}
+
+export async function getProfile(id: string, token: string | undefined) {
+  const profile = await profiles().get(parseProfileId(id));
+  if (!profile || !hasToken(profile, token)) {
+    throw new HttpError('Profile not found', 404);
+  }
+  return toPlayerProfile(profile);
+}
+
+// The first sync claims the id and hands out its token; every later sync has to bring that token back.
+// Profiles synced before tokens existed are claimed by whichever browser syncs them next.
+export async function syncProfile(id: string, token: string | undefined, games: unknown): Promise<PlayerProfile> {
+  const collection = profiles();
+  const stored = await collection.get(parseProfileId(id));
+  if (stored?.tokenHash && !hasToken(stored, token)) {
+    throw new HttpError('Wrong sync code for this profile', 403);
+  }
+  const syncToken = stored?.tokenHash ? undefined : randomBytes(24).toString('base64url');
+  const profile = await collection.put({
+    id,
+    games: mergeGames(stored?.games || [], parseGames(games)),
+    updatedAt: new Date().toISOString(),
+    tokenHash: syncToken ? hashToken(syncToken) : stored?.tokenHash,
+  });
+  return { ...toPlayerProfile(profile), syncToken };
+}
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The seeded generator lives in module state, so every test loads a fresh copy of the module
+async function loadRandom() {
+  vi.resetModules();
+  return import('./random');
+}
+
+function draw(random: () => number, count = 5) {
+  return Array.from({ length: count }, () => random());
+}
+
+describe('random', () => {
+  beforeEach(() => {
+    vi.stubEnv('GOSSIP_FIXTURES', 'replay');
+    vi.stubEnv('GOSSIP_FIXTURES_SEED', 'tea');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('repeats the same sequence for the same seed', async () => {
+    const first = draw((await loadRandom()).random);
+    const second = draw((await loadRandom()).random);
+    expect(second).toEqual(first);
+    first.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('gives a different sequence for a different seed', async () => {
+    const first = draw((await loadRandom()).random);
+    vi.stubEnv('GOSSIP_FIXTURES_SEED', 'coffee');
+    expect(draw((await loadRandom()).random)).not.toEqual(first);
+  });
+
+  it('records with the same choices it replays', async () => {
+    const replayed = (await loadRandom()).shuffle([1, 2, 3, 4, 5, 6]);
+    vi.stubEnv('GOSSIP_FIXTURES', 'record');
+    expect((await loadRandom()).shuffle([1, 2, 3, 4, 5, 6])).toEqual(replayed);
+  });
+
+  it('uses Math.random when live', async () => {
+    vi.stubEnv('GOSSIP_FIXTURES', 'live');
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const { pickRandom } = await loadRandom();
+    expect(pickRandom(['a', 'b', 'c', 'd'])).toBe('c');
+  });
+
+  it('shuffles without losing or copying items', async () => {
+    const items = ['a', 'b', 'c', 'd', 'e'];
+    const shuffled = (await loadRandom()).shuffle(items);
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+});
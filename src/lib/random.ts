@@ -0,0 +1,39 @@
+import { getFixtureMode } from './fixtures';
+
+// mulberry32: tiny seeded PRNG, good enough for picking posts and shuffling stories
+function createSeededRandom(seed: string) {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+let seededRandom: (() => number) | undefined;
+
+// Recording and replaying must make the same choices, so both use a fixed seed
+export function random() {
+  if (getFixtureMode() === 'live') {
+    return Math.random();
+  }
+  seededRandom ??= createSeededRandom(process.env.GOSSIP_FIXTURES_SEED || 'gossaip');
+  return seededRandom();
+}
+
+export function pickRandom<T>(items: T[]): T | undefined {
+  return items[Math.floor(random() * items.length)];
+}
+
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
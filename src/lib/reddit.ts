@@ -0,0 +1,217 @@
+import { RedditPost } from '@/types/reddit';
+import { HttpError } from '@/lib/errors';
+import { fetchWithFixtures, getFixtureMode } from '@/lib/fixtures';
+
+const PUBLIC_BASE_URL = 'https://www.reddit.com';
+const OAUTH_BASE_URL = 'https://oauth.reddit.com';
+const TOKEN_URL = 'https://www.reddit.com/api/v1/access_token';
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+// Never sleep longer than this on a single Retry-After, so a request can't hang a round
+const MAX_BACKOFF_MS = 10 * 1000;
+const MAX_CACHE_ENTRIES = 200;
+// Refresh OAuth tokens this long before Reddit says they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+interface CacheEntry {
+  data: unknown;
+  expiresAt: number;
+}
+
+interface AccessToken {
+  value: string;
+  expiresAt: number;
+}
+
+// The parts of a Reddit listing response the game reads
+interface RedditListing {
+  data?: {
+    children?: { data?: RedditPost }[];
+  };
+}
+
+interface RedditClientState {
+  cache: Map<string, CacheEntry>;
+  inFlight: Map<string, Promise<unknown>>;
+  token?: AccessToken;
+  tokenRequest?: Promise<AccessToken>;
+  // Set from Retry-After on a 429, so every request holds off, not just the one that was limited
+  cooldownUntil: number;
+}
+
+const globalForReddit = globalThis as typeof globalThis & { __gossaipReddit?: RedditClientState };
+const state: RedditClientState = globalForReddit.__gossaipReddit ??= {
+  cache: new Map(),
+  inFlight: new Map(),
+  cooldownUntil: 0,
+};
+
+function getCacheTtlMs() {
+  const value = Number(process.env.REDDIT_CACHE_TTL_SECONDS);
+  return (process.env.REDDIT_CACHE_TTL_SECONDS !== undefined && Number.isFinite(value) ? value : 120) * 1000;
+}
+
+function getUserAgent() {
+  return process.env.REDDIT_USER_AGENT || 'GossAIP/1.0';
+}
+
+function getCredentials() {
+  const clientId = process.env.REDDIT_CLIENT_ID;
+  const clientSecret = process.env.REDDIT_CLIENT_SECRET;
+  return clientId && clientSecret ? { clientId, clientSecret } : undefined;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function getBackoffMs(response: Response | undefined, attempt: number) {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  const delay = Number.isFinite(retryAfter) && retryAfter > 0
+    ? retryAfter * 1000
+    : BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS;
+  return Math.min(delay, MAX_BACKOFF_MS);
+}
+
+// App-only OAuth (client credentials): higher rate limits than anonymous requests. Always a live request, never
+// recorded, so a bearer token can't end up in a fixture file.
+async function requestAccessToken({ clientId, clientSecret }: { clientId: string; clientSecret: string }) {
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'User-Agent': getUserAgent(),
+    },
+    body: 'grant_type=client_credentials',
+  });
+  if (!response.ok) {
+    throw new Error(`Reddit OAuth error: ${response.status}`);
+  }
+  const data = await response.json();
+  if (!data?.access_token) {
+    throw new Error('Reddit OAuth response had no access token');
+  }
+  return {
+    value: data.access_token as string,
+    expiresAt: Date.now() + Number(data.expires_in || 3600) * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+  };
+}
+
+async function getAccessToken() {
+  const credentials = getCredentials();
+  if (!credentials) {
+    return undefined;
+  }
+  // Replayed requests never reach Reddit; they only need a token to look up the oauth URLs they were recorded under
+  if (getFixtureMode() === 'replay') {
+    return 'replay';
+  }
+  if (state.token && state.token.expiresAt > Date.now()) {
+    return state.token.value;
+  }
+  state.tokenRequest ??= requestAccessToken(credentials)
+    .then(token => (state.token = token))
+    .finally(() => {
+      state.tokenRequest = undefined;
+    });
+  return (await state.tokenRequest).value;
+}
+
+function buildUrl(path: string, params: Record<string, string>, oauth: boolean) {
+  const query = new URLSearchParams({ ...params, raw_json: '1' });
+  return oauth ? `${OAUTH_BASE_URL}${path}?${query}` : `${PUBLIC_BASE_URL}${path}.json?${query}`;
+}
+
+async function requestWithRetries(path: string, params: Record<string, string>) {
+  let response: Response | undefined;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    const cooldown = state.cooldownUntil - Date.now();
+    if (cooldown > 0) {
+      await sleep(Math.min(cooldown, MAX_BACKOFF_MS));
+    }
+
+    const token = await getAccessToken();
+    const headers: Record<string, string> = { 'User-Agent': getUserAgent() };
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    try {
+      response = await fetchWithFixtures(buildUrl(path, params, Boolean(token)), { headers });
+    } catch (error) {
+      // Network failures are retried like 5xx responses
+      if (attempt === MAX_RETRIES) {
+        throw error;
+      }
+      await sleep(getBackoffMs(undefined, attempt));
+      continue;
+    }
+
+    if (response.ok) {
+      return response.json() as Promise<unknown>;
+    }
+    if (response.status === 401 && token) {
+      // The token was revoked or expired early; fetch a new one on the next attempt
+      state.token = undefined;
+      continue;
+    }
+    if (response.status !== 429 && response.status < 500) {
+      break;
+    }
+
+    const backoff = getBackoffMs(response, attempt);
+    if (response.status === 429) {
+      state.cooldownUntil = Date.now() + backoff;
+    }
+    if (attempt < MAX_RETRIES) {
+      console.warn(`Reddit returned ${response.status} for ${path}, retrying in ${Math.round(backoff)}ms`);
+      await sleep(backoff);
+    }
+  }
+
+  if (response?.status === 429) {
+    throw new HttpError('Reddit is rate limiting requests right now, try again in a moment', 503);
+  }
+  throw new Error(`Reddit API error: ${response?.status ?? 'no response'}`);
+}
+
+function pruneCache(now = Date.now()) {
+  state.cache.forEach((entry, key) => {
+    if (entry.expiresAt <= now) {
+      state.cache.delete(key);
+    }
+  });
+  // Maps iterate in insertion order, so the first keys are the oldest entries
+  const overflow = state.cache.size - MAX_CACHE_ENTRIES;
+  Array.from(state.cache.keys()).slice(0, Math.max(0, overflow)).forEach(key => state.cache.delete(key));
+}
+
+// One entry point for every Reddit read: cached, deduplicated while in flight, and retried with backoff
+export async function redditGet(path: string, params: Record<string, string> = {}): Promise<unknown> {
+  const key = `${path}?${new URLSearchParams(params)}`;
+  const cached = state.cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.data;
+  }
+
+  let pending = state.inFlight.get(key);
+  if (!pending) {
+    pending = requestWithRetries(path, params)
+      .then(data => {
+        pruneCache();
+        state.cache.set(key, { data, expiresAt: Date.now() + getCacheTtlMs() });
+        return data;
+      })
+      .finally(() => state.inFlight.delete(key));
+    state.inFlight.set(key, pending);
+  }
+  return pending;
+}
+
+export async function fetchRedditListing(path: string, params: Record<string, string> = {}): Promise<RedditPost[]> {
+  const listing = (await redditGet(path, params)) as RedditListing | undefined;
+  return (listing?.data?.children ?? [])
+    .map(child => child?.data)
+    .filter((post): post is RedditPost => typeof post?.id === 'string' && typeof post.title === 'string');
+}
@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SourcePost } from '@/types/content';
+import { ContentSource } from './types';
+import { filterRelevantPosts } from './relevance';
+
+// Field names follow Reddit's post JSON, so a saved listing can be used as is
+type PostsFileEntry = Record<string, unknown> & { title: string };
+
+function isPostsFileEntry(value: unknown): value is PostsFileEntry {
+  return typeof value === 'object' && value !== null && typeof (value as Record<string, unknown>).title === 'string';
+}
+
+function readString(...values: unknown[]) {
+  return values.find((value): value is string => typeof value === 'string' && value !== '');
+}
+
+// Accepts a JSON array or JSONL file of posts; only `title` is required per entry
+async function readPostsFile(filePath: string): Promise<unknown[]> {
+  const raw = await fs.readFile(path.resolve(process.cwd(), filePath), 'utf8');
+  if (filePath.endsWith('.jsonl')) {
+    return raw
+      .split('\n')
+      .filter(line => line.trim())
+      .map((line): unknown => JSON.parse(line));
+  }
+  const data: unknown = JSON.parse(raw);
+  return Array.isArray(data) ? data : [];
+}
+
+export function createFileSource(filePath: string): ContentSource {
+  return {
+    id: 'file',
+    label: `Local posts (${path.basename(filePath)})`,
+    async fetchPosts(query) {
+      const entries = await readPostsFile(filePath);
+      const posts: SourcePost[] = entries
+        .filter(isPostsFileEntry)
+        .map((entry, index) => ({
+          id: String(entry.id ?? index),
+          title: entry.title,
+          selftext: readString(entry.selftext, entry.content) ?? '',
+          url: readString(entry.url, entry.permalink) ?? '',
+          score: Number(entry.score) || 0,
+          num_comments: Number(entry.num_comments) || 0,
+          community: readString(entry.community, entry.subreddit),
+          source: 'file',
+          nsfw: Boolean(entry.nsfw ?? entry.over_18),
+          removed: Boolean(entry.removed),
+        }));
+
+      return filterRelevantPosts(posts, query);
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { fetchWithFixtures } from '@/lib/fixtures';
+import { ContentSource } from './types';
+import { filterRelevantPosts } from './relevance';
+
+interface HackerNewsHit {
+  objectID: string;
+  title: string;
+  story_text?: string | null;
+  points?: number | null;
+  num_comments?: number | null;
+}
+
+export function createHackerNewsSource(): ContentSource {
+  return {
+    id: 'hackernews',
+    label: 'Hacker News',
+    async fetchPosts(query) {
+      // Newest stories first; a fixed URL keeps the request replayable
+      const response = await fetchWithFixtures(
+        `https://hn.algolia.com/api/v1/search_by_date?query=${encodeURIComponent(query.topic)}&tags=story&hitsPerPage=20`
+      );
+
+      if (!response.ok) {
+        throw new Error(`Hacker News API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const hits: HackerNewsHit[] = data?.hits || [];
+
+      return filterRelevantPosts(
+        hits.map(hit => ({
+          id: hit.objectID,
+          title: hit.title,
+          selftext: hit.story_text || '',
+          url: `https://news.ycombinator.com/item?id=${hit.objectID}`,
+          score: hit.points || 0,
+          num_comments: hit.num_comments || 0,
+          community: 'Hacker News',
+          source: 'hackernews' as const,
+        })),
+        query
+      );
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import { SourceId, SourceInfo, SourcePost, TopicQuery } from '@/types/content';
+import { HttpError } from '@/lib/errors';
+import { shuffle } from '@/lib/random';
+import { ContentSource } from './types';
+import { createRedditSearchSource, createSubredditSource } from './reddit';
+import { createHackerNewsSource } from './hackernews';
+import { createRssSource } from './rss';
+import { createFileSource } from './file';
+
+export type { ContentSource } from './types';
+export { findTopicPack, parseSubredditList, readTopicPacks, resolveTopicQuery } from './packs';
+
+export const SOURCE_IDS: SourceId[] = ['reddit', 'subreddit', 'rss', 'hackernews', 'file'];
+
+export function parseSourceId(value: unknown): SourceId | undefined {
+  return SOURCE_IDS.find(id => id === value);
+}
+
+function readList(value: string | undefined) {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// Sources are enabled by deployment config; players can only narrow that set
+export function getEnabledSources(): ContentSource[] {
+  const enabled = readList(process.env.GOSSIP_SOURCES);
+  const ids = enabled.length > 0 ? enabled : ['reddit'];
+  const sources: ContentSource[] = [];
+
+  ids.forEach(id => {
+    switch (id) {
+      case 'reddit':
+        sources.push(createRedditSearchSource());
+        break;
+      case 'subreddit': {
+        const subreddits = readList(process.env.GOSSIP_SUBREDDITS);
+        if (subreddits.length > 0) {
+          sources.push(createSubredditSource(subreddits));
+        }
+        break;
+      }
+      case 'rss': {
+        const feeds = readList(process.env.GOSSIP_RSS_FEEDS);
+        if (feeds.length > 0) {
+          sources.push(createRssSource(feeds));
+        }
+        break;
+      }
+      case 'hackernews':
+        sources.push(createHackerNewsSource());
+        break;
+      case 'file':
+        if (process.env.GOSSIP_POSTS_FILE) {
+          sources.push(createFileSource(process.env.GOSSIP_POSTS_FILE));
+        }
+        break;
+      default:
+        console.error(`Unknown content source: ${id}`);
+    }
+  });
+
+  return sources;
+}
+
+export function listSources(): SourceInfo[] {
+  return getEnabledSources().map(({ id, label }) => ({ id, label }));
+}
+
+export function resolveSources(requested?: string[]): ContentSource[] {
+  const enabled = getEnabledSources();
+  if (!requested || requested.length === 0) {
+    return enabled;
+  }
+  const selected = enabled.filter(source => requested.includes(source.id));
+  if (selected.length === 0) {
+    throw new HttpError('None of the requested sources are available', 400);
+  }
+  return selected;
+}
+
+export function parseSourcesParam(value: string | null): SourceId[] {
+  return readList(value || undefined) as SourceId[];
+}
+
+// Try the selected sources in random order until one has relevant posts that pass `isAcceptable`
+export async function fetchSourcePosts(
+  query: TopicQuery,
+  sources: ContentSource[],
+  isAcceptable: (post: SourcePost) => boolean = () => true
+): Promise<{
+  source: ContentSource;
+  posts: SourcePost[];
+}> {
+  const order = shuffle(sources);
+  const errors: unknown[] = [];
+  let screenedOut = 0;
+
+  for (const source of order) {
+    try {
+      const found = await source.fetchPosts(query);
+      const posts = found.filter(isAcceptable);
+      screenedOut += found.length - posts.length;
+      if (posts.length > 0) {
+        return { source, posts };
+      }
+    } catch (error) {
+      console.error(`Error fetching posts from ${source.id}:`, error);
+      errors.push(error);
+    }
+  }
+
+  // Surface the upstream error when no source could be reached at all
+  if (errors.length === order.length && errors[0] instanceof Error) {
+    throw errors[0];
+  }
+  if (screenedOut > 0) {
+    throw new HttpError('Every post found for this topic was filtered out by the content policy', 422);
+  }
+  throw new HttpError('No relevant posts found', 404);
+}
@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SubredditFilter, TopicQuery } from '@/types/content';
+import { HttpError } from '@/lib/errors';
+import { normalizeSubredditName, normalizeText } from './relevance';
+
+const MAX_SUBREDDITS = 10;
+// Reddit's own rule for community names
+const SUBREDDIT_NAME = /^[a-z0-9_]{2,21}$/;
+
+// A topic and the other names it goes by, with the subreddits worth searching (or avoiding) for it
+export interface TopicPack {
+  topics: string[];
+  subreddits?: string[];
+  excludeSubreddits?: string[];
+}
+
+export async function readTopicPacks(): Promise<TopicPack[]> {
+  const filePath = process.env.GOSSIP_TOPIC_PACKS_FILE || 'data/topic-packs.json';
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.resolve(process.cwd(), filePath), 'utf8');
+  } catch (error) {
+    // Packs are optional; a deployment without the file just searches everywhere
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const data = JSON.parse(raw);
+  return Array.isArray(data) ? data.filter(pack => Array.isArray(pack?.topics)) : [];
+}
+
+// Accepts an array or a comma separated string of names, with or without the r/ prefix
+export function parseSubredditList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const names = Array.from(new Set(
+    items
+      .filter((item): item is string => typeof item === 'string')
+      .map(normalizeSubredditName)
+      .filter(Boolean)
+  ));
+
+  const invalid = names.find(name => !SUBREDDIT_NAME.test(name));
+  if (invalid) {
+    throw new HttpError(`"${invalid}" is not a valid subreddit name`, 400);
+  }
+  if (names.length > MAX_SUBREDDITS) {
+    throw new HttpError(`Pick at most ${MAX_SUBREDDITS} subreddits`, 400);
+  }
+  return names;
+}
+
+export function findTopicPack(packs: TopicPack[], topic: string) {
+  const key = normalizeText(topic).trim();
+  return packs.find(pack => pack.topics.some(name => normalizeText(name).trim() === key));
+}
+
+// The player's subreddits replace the pack's; exclusions from both apply
+export async function resolveTopicQuery(topic: string, filter?: Partial<SubredditFilter>): Promise<TopicQuery> {
+  const key = normalizeText(topic).trim();
+  const pack = findTopicPack(await readTopicPacks(), topic);
+  const include = filter?.include?.length ? filter.include : (pack?.subreddits || []).map(normalizeSubredditName);
+  const exclude = [...(pack?.excludeSubreddits || []).map(normalizeSubredditName), ...(filter?.exclude || [])];
+
+  return {
+    topic,
+    aliases: (pack?.topics || []).filter(name => normalizeText(name).trim() !== key),
+    subreddits: { include, exclude: Array.from(new Set(exclude)) },
+  };
+}
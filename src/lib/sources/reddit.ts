@@ -0,0 +1,98 @@
+import { SourcePost, TopicQuery } from '@/types/content';
+import { RedditPost } from '@/types/reddit';
+import { fetchRedditListing } from '@/lib/reddit';
+import { ContentSource } from './types';
+import { filterRelevantPosts, getTopicKeywords } from './relevance';
+
+// Reddit keeps removed and deleted posts in listings, with their text replaced by a marker
+function isRemoved(post: RedditPost) {
+  return Boolean(post.removed_by_category) || post.selftext === '[removed]' || post.selftext === '[deleted]';
+}
+
+export function toSourcePost(post: RedditPost, source: 'reddit' | 'subreddit'): SourcePost {
+  return {
+    id: post.id || post.permalink,
+    title: post.title,
+    selftext: post.selftext || '',
+    url: `https://reddit.com${post.permalink}`,
+    score: post.score || 0,
+    num_comments: post.num_comments || 0,
+    community: post.subreddit ? `r/${post.subreddit}` : undefined,
+    source,
+    nsfw: Boolean(post.over_18),
+    removed: isRemoved(post),
+  };
+}
+
+// Widen step by step until something relevant turns up: recent hot posts about the topic first,
+// then older ones by relevance, and finally posts matching any single term of the topic
+const SEARCH_STEPS: { sort: string; t: string; broad: boolean }[] = [
+  { sort: 'hot', t: 'day', broad: false },
+  { sort: 'hot', t: 'week', broad: false },
+  { sort: 'relevance', t: 'month', broad: false },
+  { sort: 'relevance', t: 'month', broad: true },
+  { sort: 'relevance', t: 'year', broad: true },
+];
+
+// Reddit search takes OR between groups; aliases widen the strict query, single terms the broad one
+function buildSearchQuery({ topic, aliases }: TopicQuery, broad: boolean) {
+  const phrases = [topic, ...aliases];
+  const parts = broad
+    ? Array.from(new Set(phrases.flatMap(getTopicKeywords)))
+    : phrases.map(phrase => (/\s/.test(phrase.trim()) ? `(${phrase.trim()})` : phrase.trim()));
+  return parts.length > 1 ? parts.join(' OR ') : topic;
+}
+
+export function createRedditSearchSource(): ContentSource {
+  return {
+    id: 'reddit',
+    label: 'Reddit search',
+    async fetchPosts(query) {
+      const { include } = query.subreddits;
+      // A multireddit path ("r/a+b") keeps the search inside the chosen subreddits
+      const path = include.length > 0 ? `/r/${include.map(encodeURIComponent).join('+')}/search` : '/search';
+      const tried = new Set<string>();
+
+      for (const step of SEARCH_STEPS) {
+        const params: Record<string, string> = { q: buildSearchQuery(query, step.broad), sort: step.sort, t: step.t, limit: '25' };
+        if (include.length > 0) {
+          params.restrict_sr = 'on';
+        }
+        // A one-word topic has no broader form, so some steps repeat an earlier search
+        const key = JSON.stringify(params);
+        if (tried.has(key)) {
+          continue;
+        }
+        tried.add(key);
+
+        const posts = filterRelevantPosts(
+          (await fetchRedditListing(path, params)).map(post => toSourcePost(post, 'reddit')),
+          query
+        );
+        if (posts.length > 0) {
+          return posts;
+        }
+      }
+      return [];
+    },
+  };
+}
+
+export function createSubredditSource(subreddits: string[]): ContentSource {
+  return {
+    id: 'subreddit',
+    label: `Subreddits (${subreddits.map(name => `r/${name}`).join(', ')})`,
+    async fetchPosts(query) {
+      // Subreddits picked for the round take the place of the configured ones
+      const names = query.subreddits.include.length > 0 ? query.subreddits.include : subreddits;
+      const listings = await Promise.all(
+        names.map(name => fetchRedditListing(`/r/${encodeURIComponent(name)}/hot`, { limit: '50' }))
+      );
+
+      return filterRelevantPosts(
+        listings.flat().map(post => toSourcePost(post, 'subreddit')),
+        query
+      );
+    },
+  };
+}
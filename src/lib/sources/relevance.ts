@@ -0,0 +1,96 @@
+import { SourcePost, SubredditFilter, TopicQuery } from '@/types/content';
+
+// Words that say nothing about what a post is about, so topics like "the latest taylor swift drama" still match
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'in', 'on', 'at', 'to', 'for', 'with', 'about', 'from', 'by',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'my', 'your',
+  'his', 'her', 'their', 'what', 'whats', 'who', 'how', 'why', 'new', 'latest', 'news', 'gossip', 'drama',
+  'tea', 'rumor', 'rumors', 'rumour', 'rumours', 'update', 'updates',
+]);
+
+// Lowercase, without accents or apostrophes, so "Beyoncé's" and "beyonce" compare equal
+export function normalizeText(text: string) {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]s\b/g, '')
+    .replace(/['’]/g, '');
+}
+
+// Crude plural folding: "tours" matches "tour", but "boss" keeps its s
+function stem(word: string) {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+export function tokenize(text: string) {
+  return (normalizeText(text).match(/[a-z0-9]+/g) || []).map(stem);
+}
+
+// The words of a topic worth searching for; a topic made only of stop words keeps all of them
+export function getTopicKeywords(phrase: string) {
+  const words = normalizeText(phrase).match(/[a-z0-9]+/g) || [];
+  const meaningful = words.filter(word => !STOP_WORDS.has(word));
+  return Array.from(new Set(meaningful.length > 0 ? meaningful : words));
+}
+
+function getTopicTerms(phrase: string) {
+  return Array.from(new Set(getTopicKeywords(phrase).map(stem)));
+}
+
+// Short topics need every term; longer ones match on most of them ("taylor swift tour" -> 2 of 3)
+function requiredMatches(termCount: number) {
+  return termCount <= 2 ? termCount : Math.max(2, Math.ceil(termCount / 2));
+}
+
+// 0 when the post doesn't match the topic or any alias; up to 1 when every term is in the title
+export function scoreRelevance(post: SourcePost, query: TopicQuery) {
+  const titleWords = new Set(tokenize(post.title));
+  const bodyWords = new Set(tokenize(post.selftext || ''));
+
+  return Math.max(0, ...[query.topic, ...query.aliases].map(phrase => {
+    const terms = getTopicTerms(phrase);
+    const matched = terms.filter(term => titleWords.has(term) || bodyWords.has(term)).length;
+    if (terms.length === 0 || matched < requiredMatches(terms.length)) {
+      return 0;
+    }
+    // Terms in the title count double, since the body often mentions people in passing
+    const inTitle = terms.filter(term => titleWords.has(term)).length;
+    return (matched + inTitle) / (terms.length * 2);
+  }));
+}
+
+export function isRelevantPost(post: SourcePost, query: TopicQuery) {
+  return scoreRelevance(post, query) > 0;
+}
+
+export function normalizeSubredditName(name: string) {
+  return name.trim().replace(/^\/?r\//i, '').toLowerCase();
+}
+
+// Only Reddit posts (with an r/ community) are held to the filter; other sources have no subreddits
+export function matchesSubredditFilter(post: SourcePost, { include, exclude }: SubredditFilter) {
+  const community = post.community?.match(/^r\/(\w+)$/i)?.[1]?.toLowerCase();
+  if (!community) {
+    return true;
+  }
+  if (exclude.some(name => normalizeSubredditName(name) === community)) {
+    return false;
+  }
+  return include.length === 0 || include.some(name => normalizeSubredditName(name) === community);
+}
+
+// Filter out posts that don't seem relevant, come from the wrong subreddits or are duplicates; best matches first
+export function filterRelevantPosts(posts: SourcePost[], query: TopicQuery) {
+  const seenUrls = new Set<string>();
+  return posts
+    .map(post => ({ ...post, relevance: scoreRelevance(post, query) }))
+    .filter(post => {
+      if (post.relevance === 0 || !matchesSubredditFilter(post, query.subreddits) || seenUrls.has(post.url)) {
+        return false;
+      }
+      seenUrls.add(post.url);
+      return true;
+    })
+    .sort((a, b) => b.relevance - a.relevance);
+}
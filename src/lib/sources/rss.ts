@@ -0,0 +1,77 @@
+import { SourcePost } from '@/types/content';
+import { fetchWithFixtures } from '@/lib/fixtures';
+import { ContentSource } from './types';
+import { filterRelevantPosts } from './relevance';
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function stripTags(html: string) {
+  return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function readTag(xml: string, tag: string) {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? stripTags(decodeEntities(match[1])) : '';
+}
+
+function readLink(xml: string) {
+  // Atom entries carry the link in an attribute, RSS items as text
+  const atomLink = xml.match(/<link[^>]*href="([^"]+)"/i);
+  return atomLink ? decodeEntities(atomLink[1]) : readTag(xml, 'link');
+}
+
+// A small RSS 2.0 / Atom reader; feeds only need titles, summaries and links
+export function parseFeed(xml: string, feedUrl: string): SourcePost[] {
+  const feedTitle = readTag(xml.replace(/<(item|entry)[\s>][\s\S]*$/i, ''), 'title') || new URL(feedUrl).hostname;
+  const entries = xml.match(/<(item|entry)[\s>][\s\S]*?<\/\1>/gi) || [];
+
+  return entries.map(entry => {
+    const link = readLink(entry);
+    return {
+      id: readTag(entry, 'guid') || readTag(entry, 'id') || link,
+      title: readTag(entry, 'title'),
+      selftext: readTag(entry, 'description') || readTag(entry, 'summary') || readTag(entry, 'content'),
+      url: link || feedUrl,
+      score: 0,
+      num_comments: 0,
+      community: feedTitle,
+      source: 'rss' as const,
+    };
+  }).filter(post => post.title);
+}
+
+export function createRssSource(feedUrls: string[]): ContentSource {
+  return {
+    id: 'rss',
+    label: 'News feeds',
+    async fetchPosts(query) {
+      const results = await Promise.allSettled(
+        feedUrls.map(async feedUrl => {
+          const response = await fetchWithFixtures(feedUrl, { headers: { 'User-Agent': 'GossAIP/1.0' } });
+          if (!response.ok) {
+            throw new Error(`Feed error ${response.status} for ${feedUrl}`);
+          }
+          return parseFeed(await response.text(), feedUrl);
+        })
+      );
+
+      const posts = results.flatMap(result => {
+        if (result.status === 'rejected') {
+          console.error('Error fetching feed:', result.reason);
+          return [];
+        }
+        return result.value;
+      });
+
+      return filterRelevantPosts(posts, query);
+    },
+  };
+}
@@ -0,0 +1,7 @@
+import { SourceId, SourcePost, TopicQuery } from '@/types/content';
+
+export interface ContentSource {
+  id: SourceId;
+  label: string;
+  fetchPosts(query: TopicQuery): Promise<SourcePost[]>;
+}
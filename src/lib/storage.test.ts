@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCollection } from './storage';
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+describe('getCollection', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gossaip-storage-'));
+    vi.stubEnv('GOSSIP_DATA_DIR', dir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes every record to the collection file', async () => {
+    const notes = getCollection<Note>('notes-write');
+    await notes.put({ id: 'a', text: 'first' });
+    await notes.put({ id: 'b', text: 'second' });
+
+    const saved = JSON.parse(await fs.readFile(path.join(dir, 'notes-write.json'), 'utf8'));
+    expect(saved).toEqual([{ id: 'a', text: 'first' }, { id: 'b', text: 'second' }]);
+    expect(await notes.get('b')).toEqual({ id: 'b', text: 'second' });
+  });
+
+  it('rejects a put whose write fails, and keeps writing after it', async () => {
+    const notes = getCollection<Note>('notes-fail');
+    await notes.list();
+    // A data dir under a regular file can't be created
+    const blocked = path.join(dir, 'blocked');
+    await fs.writeFile(blocked, '');
+    vi.stubEnv('GOSSIP_DATA_DIR', path.join(blocked, 'data'));
+
+    await expect(notes.put({ id: 'a', text: 'lost' })).rejects.toThrow();
+
+    vi.stubEnv('GOSSIP_DATA_DIR', dir);
+    await notes.put({ id: 'b', text: 'kept' });
+    const saved = JSON.parse(await fs.readFile(path.join(dir, 'notes-fail.json'), 'utf8'));
+    expect(saved.map((note: Note) => note.id)).toEqual(['a', 'b']);
+  });
+});
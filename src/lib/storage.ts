@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface StoredRecord {
+  id: string;
+}
+
+export interface Collection<T extends StoredRecord> {
+  get(id: string): Promise<T | undefined>;
+  list(): Promise<T[]>;
+  put(record: T): Promise<T>;
+  delete(id: string): Promise<void>;
+}
+
+interface CollectionState<T> {
+  records: Map<string, T>;
+  loaded?: Promise<void>;
+  writes: Promise<void>;
+}
+
+// A JSON file per collection under GOSSIP_DATA_DIR; small enough for leaderboards and round banks
+function getDataDir() {
+  return path.resolve(process.cwd(), process.env.GOSSIP_DATA_DIR || '.data');
+}
+
+const globalForStorage = globalThis as typeof globalThis & {
+  __gossaipCollections?: Map<string, CollectionState<unknown>>;
+};
+const collections: Map<string, CollectionState<unknown>> = globalForStorage.__gossaipCollections ??= new Map();
+
+async function load<T>(name: string, state: CollectionState<T>) {
+  try {
+    const raw = await fs.readFile(path.join(getDataDir(), `${name}.json`), 'utf8');
+    const records: T[] = JSON.parse(raw);
+    records.forEach(record => state.records.set((record as StoredRecord).id, record));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+// Writes go through a queue and a temp file, so concurrent requests never interleave a half-written file.
+// A failed write rejects for its caller, so the route can report it, while later writes still go ahead.
+function persist<T>(name: string, state: CollectionState<T>) {
+  const write = state.writes.then(async () => {
+    const dir = getDataDir();
+    const filePath = path.join(dir, `${name}.json`);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(Array.from(state.records.values()), null, 2));
+    await fs.rename(tempPath, filePath);
+  });
+  state.writes = write.catch(() => {});
+  return write;
+}
+
+export function getCollection<T extends StoredRecord>(name: string): Collection<T> {
+  // Each collection name is only ever opened with one record type
+  let state = collections.get(name) as CollectionState<T> | undefined;
+  if (!state) {
+    state = { records: new Map(), writes: Promise.resolve() };
+    collections.set(name, state);
+  }
+  const current = state;
+  const ready = () => (current.loaded ??= load(name, current));
+
+  return {
+    async get(id) {
+      await ready();
+      return current.records.get(id);
+    },
+    async list() {
+      await ready();
+      return Array.from(current.records.values());
+    },
+    async put(record) {
+      await ready();
+      current.records.set(record.id, record);
+      await persist(name, current);
+      return record;
+    },
+    async delete(id) {
+      await ready();
+      current.records.delete(id);
+      await persist(name, current);
+    },
+  };
+}
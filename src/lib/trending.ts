@@ -0,0 +1,217 @@
+import { SourcePost } from '@/types/content';
+import { TrendingTopic, TrendingTopics } from '@/types/trending';
+import { fetchRedditListing } from '@/lib/reddit';
+import { findTopicPack, readTopicPacks } from '@/lib/sources';
+import { toSourcePost } from '@/lib/sources/reddit';
+import { normalizeText } from '@/lib/sources/relevance';
+import { findBlockedTerm, isSafePost } from '@/lib/pipeline/moderation';
+
+const SAMPLE_SIZE = 100;
+const MAX_TOPICS = 20;
+// Longer runs of capitalized words (not counting connectors) are Title Case Headlines, not names
+const MAX_ENTITY_WORDS = 3;
+// After a failed refresh the previous list is served for this long before trying again
+const RETRY_AFTER_ERROR_MS = 60 * 1000;
+
+// Small words allowed inside a name: "Game of Thrones", "Lord of the Rings", "Tom & Jerry"
+const CONNECTORS = new Set(['of', 'the', 'and', '&', 'de', 'la', 'van', 'von']);
+
+// Capitalized only because they start a sentence or a headline; never topics on their own
+const NOISE_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'if', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'from', 'by',
+  'i', 'im', 'me', 'my', 'we', 'our', 'you', 'your', 'he', 'his', 'she', 'her', 'they', 'their', 'it', 'this',
+  'that', 'these', 'those', 'there', 'here', 'what', 'why', 'how', 'when', 'where', 'who', 'which', 'is', 'are',
+  'was', 'were', 'be', 'do', 'does', 'did', 'can', 'could', 'should', 'would', 'will', 'has', 'have', 'had',
+  'not', 'no', 'yes', 'all', 'any', 'anyone', 'everyone', 'some', 'just', 'new', 'first', 'after', 'before',
+  'today', 'yesterday', 'breaking', 'update', 'psa', 'til', 'oc', 'eli5', 'ama', 'reddit', 'me_irl', 'meirl',
+  'man', 'woman', 'guy', 'girl', 'people', 'us', 'uk', 'am', 'pm', 'omg', 'lol', 'wtf',
+]);
+
+interface TrendingCache extends TrendingTopics {
+  expiresAt: number;
+  pending?: Promise<TrendingTopics>;
+}
+
+const globalForTrending = globalThis as typeof globalThis & { __gossaipTrending?: TrendingCache };
+
+function getTtlMs() {
+  const value = Number(process.env.GOSSIP_TRENDING_TTL_SECONDS);
+  return (process.env.GOSSIP_TRENDING_TTL_SECONDS !== undefined && Number.isFinite(value) ? value : 600) * 1000;
+}
+
+// Proper nouns, acronyms ("NBA") and camel-cased brands ("iPhone"), with possessives and punctuation stripped
+function isNameWord(word: string) {
+  return /^[A-Z][a-zA-Z0-9.'-]*$/.test(word) || /^[a-z]+[A-Z][a-zA-Z0-9]*$/.test(word) || /^[A-Z0-9]{2,6}$/.test(word);
+}
+
+// Noise is only trimmed from the front, where sentence capitalization puts it; "The" stays on titles like "The Last of Us"
+function trimSpan(words: string[]) {
+  let start = 0;
+  let end = words.length;
+  while (start < end && (NOISE_WORDS.has(words[start].toLowerCase()) || CONNECTORS.has(words[start].toLowerCase()))) {
+    start++;
+  }
+  while (end > start && CONNECTORS.has(words[end - 1].toLowerCase())) {
+    end--;
+  }
+  if (start > 0 && words[start - 1].toLowerCase() === 'the' && end - start > 1) {
+    start--;
+  }
+  return words.slice(start, end);
+}
+
+interface Entity {
+  name: string;
+  // A lone capitalized word opening the title may just be the start of the sentence ("Finally", "Breaking")
+  uncertain: boolean;
+}
+
+// Runs of capitalized words in a title, e.g. "Taylor Swift", "The Last of Us", "SNL"
+export function extractEntities(title: string) {
+  const entities: Entity[] = [];
+  let span: string[] = [];
+  let spanStart = 0;
+
+  const flush = (position: number) => {
+    const words = trimSpan(span);
+    const nameWords = words.filter(word => !CONNECTORS.has(word.toLowerCase()));
+    if (nameWords.length > 0 && nameWords.length <= MAX_ENTITY_WORDS && !/^\d+$/.test(words.join(''))) {
+      entities.push({
+        name: words.join(' '),
+        uncertain: spanStart === 0 && words.length === 1 && /^[A-Z][a-z]/.test(words[0]),
+      });
+    }
+    span = [];
+    spanStart = position;
+  };
+
+  title.split(/\s+/).forEach((raw, position) => {
+    const word = raw.replace(/^[^\w&]+/, '').replace(/['’]s$/i, '').replace(/[^\w&]+$/, '');
+    const endsClause = /[,.:;!?)"”|–—-]$/.test(raw) || /['’]s\W*$/i.test(raw);
+    if (word && (isNameWord(word) || (span.length > 0 && CONNECTORS.has(word.toLowerCase())))) {
+      span.push(word);
+    } else {
+      flush(position + 1);
+    }
+    if (endsClause) {
+      flush(position + 1);
+    }
+  });
+  flush(-1);
+
+  return entities;
+}
+
+interface Cluster {
+  key: string;
+  names: Map<string, number>;
+  posts: Set<number>;
+  uncertain: boolean;
+}
+
+function containsWords(haystack: string, needle: string) {
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+// Groups mentions of the same thing: "Swift" joins "Taylor Swift", and topic pack aliases join their topic
+async function clusterEntities(posts: SourcePost[]) {
+  const packs = await readTopicPacks();
+  const mentions = new Map<string, Cluster>();
+
+  posts.forEach((post, index) => {
+    extractEntities(post.title).forEach(({ name, uncertain }) => {
+      const pack = findTopicPack(packs, name);
+      const label = pack ? pack.topics[0] : name;
+      const key = normalizeText(label).trim();
+      if (key.length < 2 || findBlockedTerm(label)) {
+        return;
+      }
+      const cluster = mentions.get(key) ?? { key, names: new Map(), posts: new Set(), uncertain: true };
+      cluster.names.set(label, (cluster.names.get(label) || 0) + 1);
+      cluster.posts.add(index);
+      cluster.uncertain = cluster.uncertain && uncertain && !pack;
+      mentions.set(key, cluster);
+    });
+  });
+
+  // Longest names first, so shorter mentions have somewhere to merge into
+  const sorted = Array.from(mentions.values()).sort((a, b) =>
+    b.key.split(' ').length - a.key.split(' ').length || b.posts.size - a.posts.size
+  );
+  const clusters: Cluster[] = [];
+  sorted.forEach(mention => {
+    const target = clusters
+      .filter(cluster => containsWords(cluster.key, mention.key))
+      .sort((a, b) => b.posts.size - a.posts.size)[0];
+    if (target) {
+      mention.posts.forEach(index => target.posts.add(index));
+      target.uncertain = target.uncertain && mention.uncertain;
+    } else {
+      clusters.push(mention);
+    }
+  });
+  return clusters;
+}
+
+// Mentioned by the most popular posts first, then by combined upvotes
+async function rankTopics(posts: SourcePost[]): Promise<TrendingTopic[]> {
+  // A word only ever seen opening a title needs a second post before it counts as a topic
+  const clusters = (await clusterEntities(posts)).filter(cluster => !cluster.uncertain || cluster.posts.size > 1);
+  const topics = clusters.map(cluster => {
+    const clusterPosts = Array.from(cluster.posts).map(index => posts[index]);
+    const [topic] = Array.from(cluster.names.entries()).sort((a, b) => b[1] - a[1])[0];
+    return {
+      topic,
+      posts: clusterPosts.length,
+      upvotes: clusterPosts.reduce((total, post) => total + post.score, 0),
+      communities: Array.from(new Set(clusterPosts.map(post => post.community).filter((name): name is string => !!name))),
+    };
+  });
+
+  return topics
+    .sort((a, b) => b.posts - a.posts || b.upvotes - a.upvotes)
+    .slice(0, MAX_TOPICS);
+}
+
+async function refreshTrending(): Promise<TrendingTopics> {
+  const listing = await fetchRedditListing('/r/popular/hot', { limit: String(SAMPLE_SIZE) });
+  const posts = listing.map(post => toSourcePost(post, 'reddit')).filter(isSafePost);
+  const topics = await rankTopics(posts);
+  if (topics.length === 0) {
+    throw new Error('No trending topics found');
+  }
+  return { topics, updatedAt: Date.now() };
+}
+
+// Cached for GOSSIP_TRENDING_TTL_SECONDS; a failed refresh keeps serving the last good list
+export async function getTrendingTopics(): Promise<TrendingTopics> {
+  const cache = globalForTrending.__gossaipTrending;
+  if (cache && cache.expiresAt > Date.now()) {
+    return { topics: cache.topics, updatedAt: cache.updatedAt };
+  }
+  if (cache?.pending) {
+    return cache.pending;
+  }
+
+  const pending = refreshTrending()
+    .then(result => {
+      globalForTrending.__gossaipTrending = { ...result, expiresAt: Date.now() + getTtlMs() };
+      return result;
+    })
+    .catch(error => {
+      const stale = globalForTrending.__gossaipTrending;
+      if (stale && stale.topics.length > 0) {
+        console.error('Error refreshing trending topics, serving the previous list:', error);
+        stale.pending = undefined;
+        stale.expiresAt = Date.now() + RETRY_AFTER_ERROR_MS;
+        return { topics: stale.topics, updatedAt: stale.updatedAt };
+      }
+      globalForTrending.__gossaipTrending = undefined;
+      throw error;
+    });
+
+  globalForTrending.__gossaipTrending = cache
+    ? { ...cache, pending }
+    : { topics: [], updatedAt: 0, expiresAt: 0, pending };
+  return pending;
+}
@@ -0,0 +1,38 @@
+export type SourceId = 'reddit' | 'subreddit' | 'rss' | 'hackernews' | 'file';
+
+export interface SourceInfo {
+  id: SourceId;
+  label: string;
+  // On a round's source: the community its post came from, e.g. "r/popheads"
+  community?: string;
+}
+
+// A post normalized from any content source, shaped after RedditPost
+export interface SourcePost {
+  id: string;
+  title: string;
+  selftext: string;
+  url: string;
+  score: number;
+  num_comments: number;
+  community?: string;
+  source: SourceId;
+  // Moderation flags, when the source reports them
+  nsfw?: boolean;
+  removed?: boolean;
+  // How well the post matches the topic, from 0 to 1, set when sources filter for relevance
+  relevance?: number;
+}
+
+// Subreddit names without the r/ prefix; an empty include list means anywhere
+export interface SubredditFilter {
+  include: string[];
+  exclude: string[];
+}
+
+// What sources look for: the topic, other names it goes by, and where on Reddit to look
+export interface TopicQuery {
+  topic: string;
+  aliases: string[];
+  subreddits: SubredditFilter;
+}
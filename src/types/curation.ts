@@ -0,0 +1,99 @@
+import { SourceInfo } from './content';
+import { DifficultyLevel, GossipStory } from './gossip';
+import { Locale } from './i18n';
+
+// Pending until a curator looks at it; approved rounds are copied into the round bank
+export type ReviewStatus = 'pending' | 'approved' | 'flagged';
+// The admin queues: every status, plus rounds with open player reports
+export type ReviewQueue = ReviewStatus | 'reported';
+export type ReportReason = 'wrong-answer' | 'broken-story' | 'off-topic' | 'offensive' | 'other';
+
+export interface RoundReport {
+  id: string;
+  roundId: string;
+  reason: ReportReason;
+  note?: string;
+  playerId?: string;
+  createdAt: number;
+  // Set once a curator approves or flags the round
+  resolvedAt?: number;
+}
+
+export interface RoundReview {
+  status: Exclude<ReviewStatus, 'pending'>;
+  note?: string;
+  reviewedAt: number;
+}
+
+export interface ReviewRoundSummary {
+  id: string;
+  topic: string;
+  source: SourceInfo;
+  difficulty: DifficultyLevel;
+  status: ReviewStatus;
+  openReports: number;
+  // Start of the real story, enough to tell rounds apart in the list
+  preview: string;
+  createdAt: number;
+}
+
+export interface ReviewRound extends ReviewRoundSummary {
+  stories: GossipStory[];
+  correctIndex: number;
+  note?: string;
+  reviewedAt?: number;
+  editedAt?: number;
+  reports: RoundReport[];
+}
+
+// What a curator can change: the topic, the wording of each story, and the verdict
+export interface ReviewUpdate {
+  topic?: string;
+  stories?: { content: string; explanation?: string }[];
+  status?: Exclude<ReviewStatus, 'pending'>;
+  note?: string;
+}
+
+export type RoundFileFormat = 'json' | 'jsonl';
+
+export interface RoundFileStory {
+  content: string;
+  explanation?: string;
+}
+
+// What made the round; everything past the decoy attempts is missing for rounds saved before it was kept
+export interface RoundFileGeneration {
+  difficulty: DifficultyLevel;
+  decoyAttempts: number;
+  locale?: Locale;
+  promptVersion?: number;
+  provider?: string;
+  model?: string;
+  // ISO 8601
+  generatedAt?: string;
+}
+
+// One round of a portable round file: a JSONL line, or an item of a JSON file's rounds
+export interface RoundFileEntry {
+  version: number;
+  id: string;
+  topic: string;
+  stories: RoundFileStory[];
+  // Index of the real story
+  answer: number;
+  // The real story's post, when the source links to one
+  source: SourceInfo & { url?: string };
+  generation: RoundFileGeneration;
+}
+
+export interface RoundFile {
+  version: number;
+  exportedAt: string;
+  rounds: RoundFileEntry[];
+}
+
+export interface RoundImportResult {
+  imported: number;
+  // Rounds that went straight into the round bank rather than the pending queue
+  approved: number;
+}
@@ -1,15 +1,151 @@
+import { SourceInfo } from './content';
+import { Locale } from './i18n';
+
+export type DifficultyLevel = 'easy' | 'normal' | 'hard';
+export type DifficultyMode = DifficultyLevel | 'adaptive';
+// Timed: as many rounds as fit in a minute. Endless: until the first miss. Fixed: a set number of rounds, no clock.
+// Sudden Death: until the first miss, with a countdown on every round.
+export type GameMode = 'timed' | 'endless' | 'fixed' | 'sudden-death';
+
 export interface GossipStory {
   content: string;
   isReal: boolean;
-  redditUrl?: string;
+  sourceUrl?: string;
+  // Shown after the reveal: what came from the post, or what was made up
+  explanation?: string;
+}
+
+// How a generated round was made, kept with it so exported round files can say which prompts and model wrote it
+export interface RoundGeneration {
+  locale: Locale;
+  promptVersion: number;
+  provider: string;
+  // The decoy stage's model, the one the game is really testing
+  model: string;
+  generatedAt: number;
+}
+
+export interface PublicGossipStory {
+  content: string;
+}
+
+export interface PublicRound {
+  roundId: string;
+  topic: string;
+  source: SourceInfo;
+  difficulty: DifficultyLevel;
+  decoyAttempts: number;
+  stories: PublicGossipStory[];
+  // Present when the round belongs to a game, so the client can resync its clock
+  game?: GameSessionState;
+}
+
+export interface GameSessionState {
+  gameId: string;
+  topic: string;
+  difficulty: DifficultyMode;
+  mode: GameMode;
+  // Correct guesses
+  score: number;
+  // Scored points, see ScoreBreakdown
+  points: number;
+  attempts: number;
+  streak: number;
+  bestStreak: number;
+  // Seconds left on the game clock; only Timed games have one
+  timeLeft?: number;
+  // Seconds left to answer the current round in Sudden Death
+  roundTimeLeft?: number;
+  isGameOver: boolean;
+  // Set for Daily Challenge games: the challenge date (YYYY-MM-DD) and its number of rounds
+  daily?: string;
+  roundLimit?: number;
+}
+
+export interface DailyChallengeInfo {
+  day: string;
+  topic: string;
+  rounds: number;
+  // Whether this player already used today's attempt
+  played: boolean;
 }
 
+// How the points for one guess add up: (base + speed bonus) x streak multiplier, plus or minus the wager
+export interface ScoreBreakdown {
+  // Grows with the number of stories in the round
+  base: number;
+  speedBonus: number;
+  streakMultiplier: number;
+  streakBonus: number;
+  // Confidence bet from 1 to 3, 0 when the player didn't bet
+  wager: number;
+  wagerPoints: number;
+  // What the guess added to the game, never taking the total below zero
+  points: number;
+  answerSeconds: number;
+}
+
+export interface GuessResult {
+  roundId: string;
+  selectedIndex: number;
+  isCorrect: boolean;
+  correctIndex: number;
+  stories: GossipStory[];
+  game?: GameSessionState;
+  // Only guesses made in a game are scored
+  scoring?: ScoreBreakdown;
+}
+
+export type RoundStage = 'source' | 'real' | 'decoy' | 'round';
+
+// Progress reported while a round is generated; none of it identifies the real story
+export type RoundProgress =
+  | { type: 'source'; source: SourceInfo }
+  | { type: 'real' }
+  | { type: 'decoy'; ready: number; total: number };
+
+export type RoundStreamEvent =
+  | RoundProgress
+  | { type: 'round'; round: PublicRound }
+  | { type: 'round-error'; stage: RoundStage; status: number; message: string };
+
+export type GamePhase = 'setup' | 'loading' | 'question' | 'reveal' | 'over';
+
+export type GameEndReason = 'time' | 'round-timer' | 'miss' | 'rounds';
+
+export interface RoundLoadingProgress {
+  source?: SourceInfo;
+  realReady: boolean;
+  decoys?: { ready: number; total: number };
+}
+
+// Client-side game flow, driven by the reducer in src/lib/game/machine.ts
 export interface GossipGameState {
+  phase: GamePhase;
+  mode: GameMode;
+  gameId: string | null;
+  roundId: string | null;
+  stories: (PublicGossipStory & Partial<GossipStory>)[];
+  roundSource: SourceInfo | null;
+  roundDifficulty: DifficultyLevel | null;
+  progress: RoundLoadingProgress;
   selectedIndex: number | null;
-  isRevealed: boolean;
-  correctIndex: number;
+  correctIndex: number | null;
+  // Confidence bet placed on the current round
+  wager: number | null;
   score: number;
-  timeLeft: number;
-  isGameActive: boolean;
-  totalAttempts: number;
+  points: number;
+  attempts: number;
+  streak: number;
+  bestStreak: number;
+  // null when the mode has no such clock
+  timeLeft: number | null;
+  roundTimeLeft: number | null;
+  roundLimit: number | null;
+  results: boolean[];
+  // Points breakdown of every scored guess, in order
+  scoring: ScoreBreakdown[];
+  // The last reveal of a game stays up until the player moves on to the summary
+  isFinalRound: boolean;
+  endReason: GameEndReason | null;
 }
@@ -0,0 +1 @@
+export type Locale = 'en' | 'es' | 'pt';
@@ -0,0 +1,34 @@
+import { DifficultyMode, GameMode } from './gossip';
+
+export type LeaderboardScope = 'all' | 'daily' | 'topic' | 'challenge';
+
+export interface LeaderboardEntry {
+  id: string;
+  nickname: string;
+  topic: string;
+  difficulty: DifficultyMode;
+  // Missing on entries saved before game modes existed, which were all Timed
+  mode?: GameMode;
+  score: number;
+  // Missing on entries saved before scoring, which are ranked by their correct guesses
+  points?: number;
+  attempts: number;
+  accuracy: number;
+  finishedAt: string;
+  // UTC date (YYYY-MM-DD) the game finished on, for daily boards
+  day: string;
+  // Challenge date, for games played in the Daily Challenge
+  challenge?: string;
+}
+
+export interface LeaderboardRanks {
+  all: number;
+  daily: number;
+  topic: number;
+  challenge?: number;
+}
+
+export interface LeaderboardSubmission {
+  entry: LeaderboardEntry;
+  ranks: LeaderboardRanks;
+}
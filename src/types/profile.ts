@@ -0,0 +1,68 @@
+import { DifficultyLevel, DifficultyMode, GameMode } from './gossip';
+
+export interface GuessRecord {
+  roundId: string;
+  difficulty: DifficultyLevel;
+  // Where the real story came from, e.g. "r/popheads"
+  community?: string;
+  isCorrect: boolean;
+  answerSeconds: number;
+  points: number;
+}
+
+export interface GameRecord {
+  // The game id from the server
+  id: string;
+  topic: string;
+  mode: GameMode;
+  difficulty: DifficultyMode;
+  score: number;
+  points: number;
+  attempts: number;
+  bestStreak: number;
+  daily?: string;
+  startedAt: string;
+  updatedAt: string;
+  guesses: GuessRecord[];
+}
+
+// Anonymous: the id is made up in the browser, and the server only sees it once the player turns on sync
+export interface PlayerProfile {
+  id: string;
+  games: GameRecord[];
+  updatedAt: string;
+  // Issued by the server on the first sync; together with the id it is the code for restoring on another device
+  syncToken?: string;
+}
+
+export interface StatLine {
+  key: string;
+  correct: number;
+  attempts: number;
+  accuracy: number;
+}
+
+export interface HistoryPoint {
+  gameId: string;
+  topic: string;
+  mode: GameMode;
+  accuracy: number;
+  points: number;
+  playedAt: string;
+}
+
+export interface PlayerStats {
+  games: number;
+  guesses: number;
+  correct: number;
+  accuracy: number;
+  totalPoints: number;
+  bestPoints: number;
+  bestStreak: number;
+  averageAnswerSeconds: number | null;
+  byTopic: StatLine[];
+  byDifficulty: StatLine[];
+  bySubreddit: StatLine[];
+  // Oldest game first
+  history: HistoryPoint[];
+}
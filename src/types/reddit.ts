@@ -1,4 +1,8 @@
+import { SourceInfo } from './content';
+import { DifficultyLevel, RoundGeneration } from './gossip';
+
 export interface RedditPost {
+  id: string;
   title: string;
   selftext: string;
   url: string;
@@ -6,17 +10,26 @@ export interface RedditPost {
   num_comments: number;
   subreddit: string;
   permalink: string;
+  over_18?: boolean;
+  removed_by_category?: string | null;
 }
 
 export interface GossipOption {
   content: string;
   isReal: boolean;
-  redditUrl?: string;
+  sourceUrl?: string;
   explanation?: string;
 }
 
 export interface GossipGame {
   topic: string;
+  source?: SourceInfo;
+  difficulty?: DifficultyLevel;
+  // How many decoy generations the quality gate needed for this round
+  decoyAttempts?: number;
+  // Set when the round was taken from the approved round bank instead of generated
+  bankId?: string;
+  generation?: RoundGeneration;
   options: GossipOption[];
   correctIndex: number;
   selectedIndex?: number;
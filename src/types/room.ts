@@ -0,0 +1,46 @@
+import { SourceInfo } from './content';
+import { DifficultyLevel, GossipStory, PublicGossipStory } from './gossip';
+
+// lobby -> loading -> question -> reveal -> loading -> ... -> finished
+export type RoomPhase = 'lobby' | 'loading' | 'question' | 'reveal' | 'finished';
+
+export interface RoomPlayerState {
+  id: string;
+  nickname: string;
+  score: number;
+  connected: boolean;
+  answered: boolean;
+  // Only sent once the round is revealed, so nobody can copy a friend's pick
+  selectedIndex?: number;
+  isCorrect?: boolean;
+}
+
+export interface RoomRoundState {
+  number: number;
+  source: SourceInfo;
+  difficulty: DifficultyLevel;
+  stories: (PublicGossipStory & Partial<GossipStory>)[];
+  timeLeft: number;
+  correctIndex?: number;
+}
+
+export interface RoomState {
+  code: string;
+  topic: string;
+  hostId: string;
+  phase: RoomPhase;
+  totalRounds: number;
+  roundSeconds: number;
+  players: RoomPlayerState[];
+  round?: RoomRoundState;
+  // Why the last round could not be generated, shown until the host tries again
+  error?: string;
+}
+
+export interface RoomJoinResult {
+  // The player's public id in the room state
+  playerId: string;
+  // The player's secret for answering, starting rounds and listening to the room
+  token: string;
+  room: RoomState;
+}
@@ -0,0 +1,12 @@
+export interface TrendingTopic {
+  topic: string;
+  // Popular posts that mention the topic, and their combined upvotes
+  posts: number;
+  upvotes: number;
+  communities: string[];
+}
+
+export interface TrendingTopics {
+  topics: TrendingTopic[];
+  updatedAt: number;
+}